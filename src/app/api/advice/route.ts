@@ -2,7 +2,10 @@ import { NextResponse } from 'next/server';
 import { validateEnv } from '@/utils/env';
 import OpenAI from 'openai';
 import { fetchSpreadsheetData, getDataMetadata } from '@/lib/data';
+import { getSalesCube, measureBy, cubeTotals } from '@/lib/cube';
+import { WEEKDAY_NAMES } from '@/lib/periods';
 import { ChatCompletion } from 'openai/resources';
+import type { DatasetMeta } from '@/types/data';
 
 // Move function declaration outside the try block
 async function getCompletion(
@@ -79,43 +82,24 @@ function formatAdviceResponse(advice: string): string {
 
 export async function GET() {
   console.log('Advice API called');
+  let meta: DatasetMeta | undefined; // Set once the data loads, so the fallback can report it too
   
   try {
     // Get actual data from spreadsheet
     console.log('Fetching spreadsheet data for advice...');
-    const { data } = await fetchSpreadsheetData();
-    const rows = data.slice(1); // Skip header row
+    const dataset = await fetchSpreadsheetData();
+    const { data } = dataset;
+    meta = dataset.meta;
+    const cube = getSalesCube(data);
     
     // Get metadata about the data
     const metadata = getDataMetadata(data);
     
     // Perform basic data analysis - similar to chat handler approach
     // Calculate product sales
-    const productSales: Record<string, number> = {};
-    const locationSales: Record<string, number> = {};
-    const monthlySales: Record<string, number> = {};
-    
-    // Process rows to extract insights
-    rows.forEach(row => {
-      // Extract key data
-      const date = new Date(row[1]); // Column B is Purchase_Date
-      const location = row[3]; // Column D is Store_Location
-      const product = row[4]; // Column E is Product_Name
-      const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-      
-      // Track product sales
-      if (!productSales[product]) productSales[product] = 0;
-      productSales[product] += amount;
-      
-      // Track location sales
-      if (!locationSales[location]) locationSales[location] = 0;
-      locationSales[location] += amount;
-      
-      // Track monthly sales
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      if (!monthlySales[monthKey]) monthlySales[monthKey] = 0;
-      monthlySales[monthKey] += amount;
-    });
+    const productSales = Object.fromEntries(measureBy(cube, 'product'));
+    const locationSales = Object.fromEntries(measureBy(cube, 'location'));
+    const monthlySales = Object.fromEntries(measureBy(cube, 'month'));
     
     // Find top products
     const topProducts = Object.entries(productSales)
@@ -187,7 +171,7 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
       if (advice) {
         console.log('Generated data-driven advice successfully with GPT-4o-mini');
         const formattedAdvice = formatAdviceResponse(advice);
-        return NextResponse.json({ advice: formattedAdvice });
+        return NextResponse.json({ advice: formattedAdvice, meta });
       } else {
         throw new Error('Empty response from OpenAI');
       }
@@ -209,7 +193,8 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
         
         return NextResponse.json({
           advice: `Based on sales data analysis, consider creating a bundle promotion featuring your top-selling product (${topProduct}) paired with ${nextProduct} to boost overall revenue and capitalize on existing customer preferences.`,
-          note: "Static analysis due to OpenAI API quota limits"
+          note: "Static analysis due to OpenAI API quota limits",
+          meta
         });
       }
       
@@ -234,7 +219,8 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
           const formattedFallbackAdvice = formatAdviceResponse(fallbackAdvice);
           return NextResponse.json({ 
             advice: formattedFallbackAdvice,
-            note: "Used fallback model (GPT-4o-mini)" 
+            note: "Used fallback model (GPT-4o-mini)",
+            meta
           });
         }
       } catch (fallbackError) {
@@ -247,20 +233,23 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
       
       return NextResponse.json({ 
         advice: `Focus on promoting ${topProduct} in ${topLocation} to capitalize on their proven performance, while expanding successful selling strategies to other locations.`,
-        note: "Using data-derived fallback advice due to API issues"
+        note: "Using data-derived fallback advice due to API issues",
+        meta
       });
     }
   } catch (error) {
     console.error('Advice API Error:', error);
     return NextResponse.json({ 
       advice: "Analyze your monthly sales trends to identify peak periods, then create targeted promotions for your highest-performing products during those timeframes.",
-      note: "Using general fallback advice due to data processing issues"
+      note: "Using general fallback advice due to data processing issues",
+      meta
     });
   }
 }
 
 // Add product-specific context functionality
 export async function POST(request: Request) {
+  let meta: DatasetMeta | undefined;
   try {
     // Get the product from the request if available
     const body = await request.json().catch(() => ({}));
@@ -270,39 +259,19 @@ export async function POST(request: Request) {
     
     // Get actual data from spreadsheet
     console.log('Fetching spreadsheet data for advice...');
-    const { data } = await fetchSpreadsheetData();
-    const rows = data.slice(1); // Skip header row
+    const dataset = await fetchSpreadsheetData();
+    const { data } = dataset;
+    meta = dataset.meta;
+    const cube = getSalesCube(data);
     
     // Get metadata about the data
     const metadata = getDataMetadata(data);
     
     // Perform basic data analysis for all products
     // Calculate product sales
-    const productSales: Record<string, number> = {};
-    const locationSales: Record<string, number> = {};
-    const monthlySales: Record<string, number> = {};
-    
-    // Process rows to extract insights
-    rows.forEach(row => {
-      // Extract key data
-      const date = new Date(row[1]); // Column B is Purchase_Date
-      const location = row[3]; // Column D is Store_Location
-      const product = row[4]; // Column E is Product_Name
-      const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-      
-      // Track product sales
-      if (!productSales[product]) productSales[product] = 0;
-      productSales[product] += amount;
-      
-      // Track location sales
-      if (!locationSales[location]) locationSales[location] = 0;
-      locationSales[location] += amount;
-      
-      // Track monthly sales
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      if (!monthlySales[monthKey]) monthlySales[monthKey] = 0;
-      monthlySales[monthKey] += amount;
-    });
+    const productSales = Object.fromEntries(measureBy(cube, 'product'));
+    const locationSales = Object.fromEntries(measureBy(cube, 'location'));
+    const monthlySales = Object.fromEntries(measureBy(cube, 'month'));
     
     // Find top products
     const topProducts = Object.entries(productSales)
@@ -329,16 +298,13 @@ export async function POST(request: Request) {
     };
     
     // If we have a specific product target, filter data for just that product
-    let filteredRows = rows;
-    if (productTarget) {
-      filteredRows = rows.filter(row => row[4] === productTarget); // Column E is Product_Name
-      
-      if (filteredRows.length === 0) {
-        return NextResponse.json({ 
-          advice: `No data found for product: ${productTarget}`,
-          note: "Product not found in data"
-        });
-      }
+    const filter = productTarget ? { products: [productTarget] } : {};
+    if (productTarget && !cube.products.includes(productTarget)) {
+      return NextResponse.json({ 
+        advice: `No data found for product: ${productTarget}`,
+        note: "Product not found in data",
+        meta
+      });
     }
     
     // Process product-specific data
@@ -351,32 +317,16 @@ export async function POST(request: Request) {
       dayOfWeekSales: Record<string, number>;
     } = {
       name: productTarget,
-      totalSales: 0,
-      monthlySales: {},
-      locationSales: {},
+      totalSales: cubeTotals(cube, filter).revenue,
+      monthlySales: Object.fromEntries(measureBy(cube, 'month', 'revenue', filter)),
+      locationSales: Object.fromEntries(measureBy(cube, 'location', 'revenue', filter)),
       timeOfDaySales: {},
       dayOfWeekSales: {}
     };
     
-    filteredRows.forEach(row => {
-      const date = new Date(row[1]); // Column B is Purchase_Date
-      const location = row[3]; // Column D is Store_Location
-      const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-      
-      // Total sales
-      productData.totalSales += amount;
-      
-      // Monthly sales
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      if (!productData.monthlySales[monthKey]) productData.monthlySales[monthKey] = 0;
-      productData.monthlySales[monthKey] += amount;
-      
-      // Location sales
-      if (!productData.locationSales[location]) productData.locationSales[location] = 0;
-      productData.locationSales[location] += amount;
-      
+    measureBy(cube, 'hour', 'revenue', filter).forEach((amount, hourKey) => {
       // Time of day
-      const hour = date.getHours();
+      const hour = parseInt(hourKey);
       const timeOfDay = 
         hour >= 6 && hour < 12 ? 'morning' :
         hour >= 12 && hour < 17 ? 'afternoon' :
@@ -384,11 +334,11 @@ export async function POST(request: Request) {
       
       if (!productData.timeOfDaySales[timeOfDay]) productData.timeOfDaySales[timeOfDay] = 0;
       productData.timeOfDaySales[timeOfDay] += amount;
-      
+    });
+    
+    measureBy(cube, 'weekday', 'revenue', filter).forEach((amount, weekday) => {
       // Day of week
-      const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][date.getDay()];
-      if (!productData.dayOfWeekSales[dayOfWeek]) productData.dayOfWeekSales[dayOfWeek] = 0;
-      productData.dayOfWeekSales[dayOfWeek] += amount;
+      productData.dayOfWeekSales[WEEKDAY_NAMES[parseInt(weekday)]] = amount;
     });
     
     // Update product-specific prompt to be more balanced
@@ -486,7 +436,7 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
       if (advice) {
         console.log('Generated data-driven advice successfully with GPT-4o-mini');
         const formattedAdvice = formatAdviceResponse(advice);
-        return NextResponse.json({ advice: formattedAdvice });
+        return NextResponse.json({ advice: formattedAdvice, meta });
       } else {
         throw new Error('Empty response from OpenAI');
       }
@@ -508,7 +458,8 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
         
         return NextResponse.json({
           advice: `Based on sales data analysis, consider creating a bundle promotion featuring your top-selling product (${topProduct}) paired with ${nextProduct} to boost overall revenue and capitalize on existing customer preferences.`,
-          note: "Static analysis due to OpenAI API quota limits"
+          note: "Static analysis due to OpenAI API quota limits",
+          meta
         });
       }
       
@@ -533,7 +484,8 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
           const formattedFallbackAdvice = formatAdviceResponse(fallbackAdvice);
           return NextResponse.json({ 
             advice: formattedFallbackAdvice,
-            note: "Used fallback model (GPT-4o-mini)" 
+            note: "Used fallback model (GPT-4o-mini)",
+            meta
           });
         }
       } catch (fallbackError) {
@@ -546,14 +498,16 @@ Based ONLY on this data, provide ONE specific, immediately actionable recommenda
       
       return NextResponse.json({ 
         advice: `Focus on promoting ${topProduct} in ${topLocation} to capitalize on their proven performance, while expanding successful selling strategies to other locations.`,
-        note: "Using data-derived fallback advice due to API issues"
+        note: "Using data-derived fallback advice due to API issues",
+        meta
       });
     }
   } catch (error) {
     console.error('Advice API Error:', error);
     return NextResponse.json({ 
       advice: "Analyze your monthly sales trends to identify peak periods, then create targeted promotions for your highest-performing products during those timeframes.",
-      note: "Using general fallback advice due to data processing issues"
+      note: "Using general fallback advice due to data processing issues",
+      meta
     });
   }
 } 
\ No newline at end of file
@@ -1,22 +1,19 @@
 import { NextResponse, NextRequest } from 'next/server';
-import { google } from 'googleapis';
-import { validateEnv } from '@/utils/env';
 import type { ApiError } from '@/types/api';
 import { fetchSpreadsheetData } from '@/lib/data';
+import { parseTransactions } from '@/lib/transactions';
 import { analyzePricePerformance } from '../chat/analyzers';
 
-function calculateAnswer(question: string, data: any[], conversation?: any[]): string {
+function calculateAnswer(question: string, data: unknown[], conversation?: any[]): string {
   console.log('=== Starting calculation ===');
   console.log('Question:', question);
   
-  const rows = data.slice(1);
+  // Validated rows only, so totals match the dashboard's
+  const { transactions } = parseTransactions(data);
   const questionLower = question.toLowerCase();
   
   // Extract product name
-  const allProducts = Array.from(new Set(
-    rows.map(row => row[4])
-      .filter(Boolean)
-  ));
+  const allProducts = Array.from(new Set(transactions.map(t => t.productName)));
   
   let matchedProduct = '';
   const questionWords = questionLower.split(' ');
@@ -39,30 +36,30 @@ function calculateAnswer(question: string, data: any[], conversation?: any[]): s
        questionLower.includes('break'))) {
     
     // Filter rows for the matched product
-    const productRows = rows.filter(row => row[4] === matchedProduct);
+    const productRows = transactions.filter(t => t.productName === matchedProduct);
     console.log('Product rows count:', productRows.length);
     
     const novSales = productRows
-      .filter(row => {
-        const date = new Date(row[1]);
+      .filter(t => {
+        const date = t.purchaseDate;
         const isNov = date.getMonth() === 10 && date.getFullYear() === 2024;
         if (isNov) {
-          console.log('November row:', { date: row[1], amount: row[8] });
+          console.log('November row:', { date, amount: t.lineTotal });
         }
         return isNov;
       })
-      .reduce((sum, row) => sum + (parseFloat(row[8]) || 0), 0);
+      .reduce((sum, t) => sum + t.lineTotal, 0);
 
     const decSales = productRows
-      .filter(row => {
-        const date = new Date(row[1]);
+      .filter(t => {
+        const date = t.purchaseDate;
         const isDec = date.getMonth() === 11 && date.getFullYear() === 2024;
         if (isDec) {
-          console.log('December row:', { date: row[1], amount: row[8] });
+          console.log('December row:', { date, amount: t.lineTotal });
         }
         return isDec;
       })
-      .reduce((sum, row) => sum + (parseFloat(row[8]) || 0), 0);
+      .reduce((sum, t) => sum + t.lineTotal, 0);
 
     console.log('Monthly totals:', { novSales, decSales });
     return `November 2024: $${novSales.toLocaleString('en-US', { minimumFractionDigits: 2 })}\nDecember 2024: $${decSales.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
@@ -104,10 +101,10 @@ function calculateAnswer(question: string, data: any[], conversation?: any[]): s
       return date.getMonth() === targetMonth && date.getFullYear() === targetYear;
     };
 
-    const filteredRows = rows.filter(row => {
-      const matches = dateFilter(new Date(row[1])) && row[4] === matchedProduct;
+    const filteredRows = transactions.filter(t => {
+      const matches = dateFilter(t.purchaseDate) && t.productName === matchedProduct;
       if (matches) {
-        console.log('Matched row:', { date: row[1], product: row[4], amount: row[8] });
+        console.log('Matched row:', { date: t.purchaseDate, product: t.productName, amount: t.lineTotal });
       }
       return matches;
     });
@@ -118,7 +115,7 @@ function calculateAnswer(question: string, data: any[], conversation?: any[]): s
       return 'Cannot calculate from available data';
     }
 
-    const total = filteredRows.reduce((sum, row) => sum + (parseFloat(row[8]) || 0), 0);
+    const total = filteredRows.reduce((sum, t) => sum + t.lineTotal, 0);
     console.log('Total calculated:', total);
     
     return `$${total.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
@@ -164,36 +161,15 @@ export async function POST(req: Request) {
   console.log('Calculations POST handler called');
   
   try {
-    const env = validateEnv();
     console.log('Request body:', body);
     
-    const auth = new google.auth.GoogleAuth({
-      credentials: {
-        client_email: env.GOOGLE_CLIENT_EMAIL,
-        private_key: env.GOOGLE_PRIVATE_KEY,
-        project_id: env.GOOGLE_PROJECT_ID
-      },
-      scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-    });
+    const { data, meta } = await fetchSpreadsheetData();
+    console.log('Spreadsheet data received');
 
-    const client = await auth.getClient();
-    const sheets = google.sheets({ version: 'v4', auth: client as any });
-    
-    console.log('Fetching spreadsheet data...');
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: env.SPREADSHEET_ID,
-      range: 'Sheet1!A1:I10001',
-    });
-
-    console.log('Spreadsheet response received');
-    if (!response.data.values) {
-      throw new Error('No data found in spreadsheet');
-    }
-
-    const answer = calculateAnswer(body.question, response.data.values, body.conversation);
+    const answer = calculateAnswer(body.question, data, body.conversation);
     console.log('Calculated answer:', answer);
     
-    return NextResponse.json({ answer });
+    return NextResponse.json({ answer, meta });
 
   } catch (error: unknown) {
     console.error('Calculation error:', error);
@@ -219,42 +195,17 @@ export async function GET(req: NextRequest) {
     }
     
     // Get data
-    const data = await fetchSpreadsheetData();
+    const { data, source, meta } = await fetchSpreadsheetData();
     console.log(`Fetching price data for: ${product}`);
-    console.log(`Data structure:`, { 
-      type: typeof data,
-      isArray: Array.isArray(data),
-      hasData: data?.data?.length,
-      hasValues: data?.data?.length
-    });
-    
-    // Enhanced data extraction - more robust
-    let formattedData = [];
-    if (Array.isArray(data)) {
-      formattedData = data;
-      console.log("Data is already an array");
-    } else if (data?.data && Array.isArray(data.data)) {
-      formattedData = data.data;
-      console.log("Using data.data");
-    } else {
-      // Create test data when real data is missing
-      console.log("No usable data format found, creating test data");
-      formattedData = [
-        ["Order_ID", "Purchase_Date", "Customer_ID", "Store_Location", "Product_Name", "Category", "Quantity", "Unit_Price", "Line_Total"],
-        ["1001", "2024-12-01", "C123", "Downtown", "Protein Acai Bowl", "Bowls", "1", "12.99", "12.99"],
-        ["1002", "2024-12-02", "C124", "Uptown", "Protein Acai Bowl", "Bowls", "1", "13.99", "13.99"],
-        ["1003", "2024-12-03", "C125", "Downtown", "Protein Acai Bowl", "Bowls", "2", "12.99", "25.98"]
-      ];
-    }
     
     // Analyze price performance
-    const priceAnalysis = await analyzePricePerformance(formattedData, product);
+    const priceAnalysis = await analyzePricePerformance(data, product);
     
     return NextResponse.json({ 
       product,
       priceAnalysis,
-      dataSource: Array.isArray(data) ? "array" : 
-                  data?.data ? "data" : "test"
+      dataSource: source,
+      meta
     });
     
   } catch (error) {
@@ -1,4 +1,7 @@
 import { ProductRecommendation, LocationSales, MonthlyTrend, PromotionInsight } from '@/types/data';
+import { COLUMN_INDEX } from '@/lib/schema';
+import { getSalesCube, queryCube, measureBy, measureByPair, cubeTotals } from '@/lib/cube';
+import { WEEKDAY_NAMES, timeOfDay } from '@/lib/periods';
 
 // Data analysis and transformation functions
 
@@ -27,14 +30,11 @@ export interface ProductPerformance {
 
 export async function analyzeProductPerformance(data: any[], productName: string): Promise<ProductPerformance> {
   console.log(`Analyzing performance data for ${productName}`);
-  const rows = data.slice(1); // Skip header row
+  const cube = getSalesCube(data);
+  const filter = { products: [productName] };
+  const productTotals = cubeTotals(cube, filter);
   
-  // Filter for the specific product
-  const productRows = rows.filter(row => 
-    row[4] === productName // Column E is Product_Name
-  );
-  
-  if (productRows.length === 0) {
+  if (productTotals.orders === 0) {
     return {
       summary: `No data found for ${productName}.`,
       locationInsights: "No location data available.",
@@ -53,14 +53,21 @@ export async function analyzeProductPerformance(data: any[], productName: string
   }
   
   // Group sales by location and by location+month for deeper analysis
-  const locationSales: Record<string, number> = {};
+  const locationSales = Object.fromEntries(measureBy(cube, 'location', 'revenue', filter));
   const locationMonthlySales: Record<string, Record<string, number>> = {};
+  measureByPair(cube, 'location', 'month', 'revenue', filter).forEach((months, location) => {
+    locationMonthlySales[location] = Object.fromEntries(months);
+  });
   
   // Group sales by month (overall)
-  const monthlySales: Record<string, number> = {};
+  const monthlySales = Object.fromEntries(measureBy(cube, 'month', 'revenue', filter));
   
   // Track promotions
   const promotionImpact: Record<string, { count: number; total: number }> = {};
+  queryCube(cube, ['discountCode'], filter).forEach(row => {
+    if (!row.key.discountCode) return;
+    promotionImpact[row.key.discountCode] = { count: row.orders, total: row.revenue };
+  });
   
   // Add time-of-day tracking
   const timeOfDaySales: Record<string, number> = {
@@ -70,62 +77,17 @@ export async function analyzeProductPerformance(data: any[], productName: string
     'night': 0      // 9 PM - 5:59 AM
   };
   
+  measureBy(cube, 'hour', 'revenue', filter).forEach((amount, hourKey) => {
+    timeOfDaySales[timeOfDay(parseInt(hourKey))] += amount;
+  });
+  
   // Track days of week
   const dayOfWeekSales: Record<string, number> = {
     'Monday': 0, 'Tuesday': 0, 'Wednesday': 0, 'Thursday': 0, 
     'Friday': 0, 'Saturday': 0, 'Sunday': 0
   };
-  
-  productRows.forEach(row => {
-    const date = new Date(row[1]); // Column B is Purchase_Date
-    const location = row[3]; // Column D is Store_Location
-    const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-    const hasPromotion = row[7] && row[7].trim() !== ""; // Column H is Discount_Code_Used
-    
-    // Add to location sales
-    if (!locationSales[location]) locationSales[location] = 0;
-    locationSales[location] += amount;
-    
-    // Add to monthly sales - using YYYY-MM format
-    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-    
-    // Track monthly sales by location for location-specific trends
-    if (!locationMonthlySales[location]) locationMonthlySales[location] = {};
-    if (!locationMonthlySales[location][monthKey]) locationMonthlySales[location][monthKey] = 0;
-    locationMonthlySales[location][monthKey] += amount;
-    
-    // Track overall monthly sales
-    if (!monthlySales[monthKey]) monthlySales[monthKey] = 0;
-    monthlySales[monthKey] += amount;
-    
-    // Track promotion impact
-    if (hasPromotion) {
-      const promoCode = row[7];
-      if (!promotionImpact[promoCode]) {
-        promotionImpact[promoCode] = { count: 0, total: 0 };
-      }
-      promotionImpact[promoCode].count++;
-      promotionImpact[promoCode].total += amount;
-    }
-    
-    // Add time-of-day analysis
-    const fullDateTime = new Date(row[1]); // Column B has timestamp
-    const hour = fullDateTime.getHours();
-    
-    // Categorize by time of day
-    if (hour >= 6 && hour < 12) {
-      timeOfDaySales['morning'] += amount;
-    } else if (hour >= 12 && hour < 17) {
-      timeOfDaySales['afternoon'] += amount;
-    } else if (hour >= 17 && hour < 21) {
-      timeOfDaySales['evening'] += amount;
-    } else {
-      timeOfDaySales['night'] += amount;
-    }
-    
-    // Track day of week
-    const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][fullDateTime.getDay()];
-    dayOfWeekSales[dayOfWeek] += amount;
+  measureBy(cube, 'weekday', 'revenue', filter).forEach((amount, weekday) => {
+    dayOfWeekSales[WEEKDAY_NAMES[parseInt(weekday)]] += amount;
   });
   
   // Process location monthly trends to show location-specific patterns
@@ -148,10 +110,10 @@ export async function analyzeProductPerformance(data: any[], productName: string
   });
   
   // Calculate total sales
-  const totalSales = productRows.reduce((sum, row) => sum + (parseFloat(row[8]) || 0), 0);
+  const totalSales = productTotals.revenue;
   
   // Calculate average order value
-  const avgOrderValue = totalSales / productRows.length;
+  const avgOrderValue = totalSales / productTotals.orders;
   
   // Find top locations
   const sortedLocations: LocationSales[] = Object.entries(locationSales)
@@ -220,7 +182,7 @@ export async function analyzeProductPerformance(data: any[], productName: string
   // Generate summary
   const summary = `
   ${productName} generated $${totalSales.toLocaleString('en-US', {minimumFractionDigits: 2})} in total sales
-  across ${productRows.length} transactions, with an average order value of 
+  across ${productTotals.orders} transactions, with an average order value of 
   $${avgOrderValue.toLocaleString('en-US', {minimumFractionDigits: 2})}.
   `;
   
@@ -351,12 +313,13 @@ export async function analyzePricePerformance(data: any, product: string) {
       throw new Error("Invalid data format");
     }
     
-    // Column indexes
-    const PRODUCT_COL = 4;  // Column E - Product_Name
-    const UNIT_PRICE_COL = 5;  // Column F - Unit_Price (original price)
-    const QUANTITY_COL = 6;  // Column G - Quantity
-    const DISCOUNT_COL = 7;  // Column H - Discount_Code_Used
-    const LINE_TOTAL_COL = 8;  // Column I - Line_Total (actual amount paid)
+    // Column indexes (resolved by header in the data layer)
+    const PRODUCT_COL = COLUMN_INDEX.productName;
+    const UNIT_PRICE_COL = COLUMN_INDEX.unitPrice;  // Original list price
+    const QUANTITY_COL = COLUMN_INDEX.quantity;
+    const DISCOUNT_COL = COLUMN_INDEX.discountCode;
+    const LINE_TOTAL_COL = COLUMN_INDEX.lineTotal;  // Actual amount paid
+    const DATE_COL = COLUMN_INDEX.purchaseDate;
     
     // Skip the header row
     const dataRows = allRows.slice(1);
@@ -422,9 +385,9 @@ export async function analyzePricePerformance(data: any, product: string) {
         
         // Parse date if available
         let transactionDate = new Date();
-        if (row[1]) { // Column B is Purchase_Date
+        if (row[DATE_COL]) {
           try {
-            const parsed = new Date(row[1]);
+            const parsed = new Date(row[DATE_COL]);
             if (!isNaN(parsed.getTime())) {
               transactionDate = parsed;
             }
@@ -637,6 +600,7 @@ export async function analyzePricePerformance(data: any, product: string) {
     
     // ---- Step 4: Calculate elasticity with promotion awareness ----
     let priceElasticity = 0;
+    let elasticityRange: { low: number; high: number } | null = null;
     let elasticityExplanation = '';
     let promotionInsight = '';
     
@@ -661,6 +625,17 @@ export async function analyzePricePerformance(data: any, product: string) {
         if (percentPriceChange !== 0 && isFinite(percentPriceChange)) {
           priceElasticity = percentQuantityChange / percentPriceChange;
           
+          // 80% range: treat the unit counts at each end as Poisson and
+          // recompute with both pushed apart, then together
+          const arcElasticity = (lowUnits: number, highUnits: number) =>
+            ((lowUnits - highUnits) / ((lowUnits + highUnits) / 2)) / percentPriceChange;
+          const lowSpread = 1.282 * Math.sqrt(lowestPrice.units);
+          const highSpread = 1.282 * Math.sqrt(highestPrice.units);
+          elasticityRange = {
+            low: arcElasticity(lowestPrice.units - lowSpread, highestPrice.units + highSpread),
+            high: arcElasticity(lowestPrice.units + lowSpread, Math.max(0, highestPrice.units - highSpread))
+          };
+          
           // Check for promotional effects
           const hasSignificantPromotions = significantPricePoints.some(p => 
             p.promoUnits > p.units * 0.2); // If >20% of units were sold with promotions
@@ -812,10 +787,14 @@ export async function analyzePricePerformance(data: any, product: string) {
     };
     
     // Return comprehensive analysis with promotion insights
+    const listPrices = pricePoints.map(p => p.listPrice);
+    
     return {
       currentPrice,
       recommendedPrice,
       priceElasticity,
+      elasticityRange,
+      observedPriceRange: listPrices.length > 0 ? { min: Math.min(...listPrices), max: Math.max(...listPrices) } : null,
       recommendedPriceRationale,
       elasticityExplanation,
       promotionInsight,
@@ -865,17 +844,17 @@ export function generateSeasonalProductComparison(data: any[]): string {
   const summerOrders = new Set();
   const winterOrders = new Set();
   
-  // Process data
-  data.forEach(row => {
-    if (row[0] === 'Order_Date') return; // Skip header
-    
+  // Process data (skip header)
+  data.slice(1).forEach(row => {
     try {
-      const date = new Date(row[0]);
+      const date = new Date(row[COLUMN_INDEX.purchaseDate]);
+      if (isNaN(date.getTime())) return;
+      
       const month = date.getMonth();
-      const orderId = row[2]; // Column C - Order_ID
-      const product = row[4]; // Column E - Product_Name
-      const quantity = parseInt(row[6] || '1', 10); // Column G - Quantity
-      const revenue = parseFloat(row[8] || '0'); // Column I - Line_Total
+      const orderId = row[COLUMN_INDEX.transactionId];
+      const product = row[COLUMN_INDEX.productName];
+      const quantity = parseInt(row[COLUMN_INDEX.quantity] || '1', 10);
+      const revenue = parseFloat(row[COLUMN_INDEX.lineTotal] || '0');
       
       // Summer analysis
       if (summer.includes(month)) {
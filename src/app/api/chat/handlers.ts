@@ -1,6 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getDataMetadata, extractMonthYear, createSystemPrompt } from '@/lib/data';
 import { analyzeProductPerformance, generateProductRecommendations } from './analyzers';
+import { getSalesCube, queryCube, measureBy, measureByPair, cubeTotals } from '@/lib/cube';
+import type { CubeFilter } from '@/lib/cube';
+import { parseTransactions } from '@/lib/transactions';
+import { toDayKey, WEEKDAY_NAMES } from '@/lib/periods';
 import OpenAI from 'openai';
 import { validateEnv } from '@/utils/env';
 
@@ -20,8 +24,8 @@ export async function handleGeneralQuery(question: string, conversation: any[],
     const metadata = getDataMetadata(data);
     console.log("Metadata extracted successfully");
     
-    // Keep this line for downstream functions that need it
-    const rows = data.slice(1); // Skip header row
+    // Shared pre-aggregated view of the dataset
+    const cube = getSalesCube(data);
     
     // Create improved system prompt with data summary and business advice instruction
     const systemPrompt = `You are a business analyst assistant with access to sales data.
@@ -38,34 +42,13 @@ export async function handleGeneralQuery(question: string, conversation: any[],
       console.log("Handling as business advice query - adding detailed analysis");
       
       // Calculate product sales trends
-      const productSales: Record<string, number> = {};
-      const monthlyTrends: Record<string, number> = {};
-      const locationSales: Record<string, number> = {};
+      const productSales = Object.fromEntries(measureBy(cube, 'product'));
+      const monthlyTrends = Object.fromEntries(measureBy(cube, 'month'));
+      const locationSales = Object.fromEntries(measureBy(cube, 'location'));
       const dayOfWeekSales: Record<string, number> = {};
       
-      rows.forEach(row => {
-        const date = new Date(row[1]); // Column B is Purchase_Date
-        const location = row[3]; // Column D is Store_Location
-        const product = row[4]; // Column E is Product_Name
-        const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-        
-        // Product sales
-        if (!productSales[product]) productSales[product] = 0;
-        productSales[product] += amount;
-        
-        // Monthly trends
-        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        if (!monthlyTrends[monthKey]) monthlyTrends[monthKey] = 0;
-        monthlyTrends[monthKey] += amount;
-        
-        // Location sales
-        if (!locationSales[location]) locationSales[location] = 0;
-        locationSales[location] += amount;
-        
-        // Day of week sales
-        const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][date.getDay()];
-        if (!dayOfWeekSales[dayOfWeek]) dayOfWeekSales[dayOfWeek] = 0;
-        dayOfWeekSales[dayOfWeek] += amount;
+      measureBy(cube, 'weekday').forEach((amount, weekday) => {
+        dayOfWeekSales[WEEKDAY_NAMES[parseInt(weekday)]] = amount;
       });
       
       // Format data for the prompt
@@ -207,12 +190,11 @@ ${productAnalysis.promotions?.length > 0 ?
       };
     } else {
       // For general questions, include basic analysis of top products
-      const productSales = metadata.availableProducts.map(product => {
-        const sales = rows
-          .filter(row => row[4] === product)
-          .reduce((sum, row) => sum + (parseFloat(row[8]) || 0), 0);
-        return { product, sales };
-      }).sort((a, b) => b.sales - a.sales);
+      const revenueByProduct = measureBy(cube, 'product');
+      const productSales = metadata.availableProducts.map(product => ({
+        product,
+        sales: revenueByProduct.get(product) || 0
+      })).sort((a, b) => b.sales - a.sales);
       
       // Include detailed analysis for top 3 products
       for (const { product } of productSales.slice(0, 3)) {
@@ -236,39 +218,14 @@ ${productAnalysis.promotions?.length > 0 ?
     const locationAnalysis: Record<string, any> = {};
     
     // Group sales by location
-    const locationMonthly: Record<string, Record<string, number>> = {};
-    const locationProducts: Record<string, Record<string, number>> = {};
-    
-    const locationSales: Record<string, number> = {};
-    
-    rows.forEach(row => {
-      const location = row[3]; // Column D is Store_Location
-      const product = row[4];  // Column E is Product_Name
-      const date = new Date(row[1]); // Column B is Purchase_Date
-      const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-      
-      // Monthly sales by location
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      
-      // Total sales by location
-      if (!locationSales[location]) locationSales[location] = 0;
-      locationSales[location] += amount;
-      
-      // Monthly sales by location
-      if (!locationMonthly[location]) locationMonthly[location] = {};
-      if (!locationMonthly[location][monthKey]) locationMonthly[location][monthKey] = 0;
-      locationMonthly[location][monthKey] += amount;
-      
-      // Product sales by location
-      if (!locationProducts[location]) locationProducts[location] = {};
-      if (!locationProducts[location][product]) locationProducts[location][product] = 0;
-      locationProducts[location][product] += amount;
-    });
+    const locationSales = Object.fromEntries(measureBy(cube, 'location'));
+    const locationMonthly = measureByPair(cube, 'location', 'month');
+    const locationProducts = measureByPair(cube, 'location', 'product');
     
     // Format location analysis for each location
     for (const location of metadata.availableLocations) {
       // Get monthly data
-      const monthlySales = Object.entries(locationMonthly[location] || {})
+      const monthlySales = Array.from((locationMonthly.get(location) || new Map<string, number>()).entries())
         .sort(([a], [b]) => a.localeCompare(b))
         .map(([monthKey, sales]) => {
           const [year, month] = monthKey.split('-');
@@ -281,7 +238,7 @@ ${productAnalysis.promotions?.length > 0 ?
         });
       
       // Get top products at this location
-      const topProducts = Object.entries(locationProducts[location] || {})
+      const topProducts = Array.from((locationProducts.get(location) || new Map<string, number>()).entries())
         .sort(([, a], [, b]) => (b as number) - (a as number))
         .slice(0, 5)
         .map(([product, sales]) => ({
@@ -316,21 +273,16 @@ ${productAnalysis.promotions?.length > 0 ?
       }
     };
     
-    rows.forEach(row => {
-      const date = new Date(row[1]); // Column B is Purchase_Date
-      const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-      
-      // Monthly totals
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      if (!timeAnalysis.monthly[monthKey]) timeAnalysis.monthly[monthKey] = 0;
-      timeAnalysis.monthly[monthKey] += amount;
-      
+    timeAnalysis.monthly = Object.fromEntries(measureBy(cube, 'month'));
+    
+    measureBy(cube, 'weekday').forEach((amount, weekday) => {
       // Day of week
-      const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][date.getDay()];
-      timeAnalysis.dayOfWeek[dayOfWeek] += amount;
-      
+      timeAnalysis.dayOfWeek[WEEKDAY_NAMES[parseInt(weekday)]] += amount;
+    });
+    
+    measureBy(cube, 'hour').forEach((amount, hourKey) => {
       // Time of day
-      const hour = date.getHours();
+      const hour = parseInt(hourKey);
       if (hour >= 6 && hour < 12) {
         timeAnalysis.timeOfDay['morning'] += amount;
       } else if (hour >= 12 && hour < 17) {
@@ -344,20 +296,14 @@ ${productAnalysis.promotions?.length > 0 ?
     
     // 4. PROMOTION ANALYSIS
     const promotionAnalysis: Record<string, any> = {};
+    const promotionRows = queryCube(cube, ['discountCode']).filter(row => row.key.discountCode);
     const promotionSales: Record<string, number> = {};
     const promotionCount: Record<string, number> = {};
     
-    rows.forEach(row => {
-      const promo = row[7]; // Column H is Discount_Code_Used
-      if (promo && promo.trim() !== '') {
-        const amount = parseFloat(row[8]) || 0; // Column I is Line_Total
-        
-        if (!promotionSales[promo]) promotionSales[promo] = 0;
-        promotionSales[promo] += amount;
-        
-        if (!promotionCount[promo]) promotionCount[promo] = 0;
-        promotionCount[promo]++;
-      }
+    promotionRows.forEach(row => {
+      const promo = row.key.discountCode!;
+      promotionSales[promo] = row.revenue;
+      promotionCount[promo] = row.orders;
     });
     
     // Format promotion analysis
@@ -404,27 +350,12 @@ export async function handleTopProductsQuery(question: string, data: any[], time
     const countMatch = question.match(/\btop\s+(\d+)\b/i);
     const count = countMatch ? parseInt(countMatch[1]) : 3;
     
-    // Analyze data
-    const rows = data.slice(1); // Skip header row
-    
     // Get all product sales for the specified month
     const monthKey = `${year}-${String(new Date(Date.parse(`${month} 1, ${year}`)).getMonth() + 1).padStart(2, '0')}`;
+    const monthSales = measureByPair(getSalesCube(data), 'month', 'product').get(monthKey);
     
     // Group sales by product for the specified month
-    const productSales: Record<string, number> = {};
-    
-    rows.forEach(row => {
-      const date = new Date(row[1]);
-      const rowMonthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      
-      if (rowMonthKey === monthKey) {
-        const product = row[4]; // Product name in column E
-        const amount = parseFloat(row[8]) || 0; // Line total in column I
-        
-        if (!productSales[product]) productSales[product] = 0;
-        productSales[product] += amount;
-      }
-    });
+    const productSales: Record<string, number> = Object.fromEntries(monthSales || []);
     
     // Convert to array and sort
     const sortedProducts = Object.entries(productSales)
@@ -479,26 +410,10 @@ export async function handleLocationQuery(question: string, data: any[], timePar
     }
     
     // Group sales by location for the specified product and month
-    const rows = data.slice(1); // Skip header row
     const monthKey = `${year}-${String(new Date(Date.parse(`${month} 1, ${year}`)).getMonth() + 1).padStart(2, '0')}`;
-    
-    const locationSales: Record<string, number> = {};
-    
-    rows.forEach(row => {
-      const productName = row[4]; // Product name in column E
-      if (productName !== product) return;
-      
-      const date = new Date(row[1]);
-      const rowMonthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      
-      if (rowMonthKey !== monthKey) return;
-      
-      const location = row[3]; // Location in column D
-      const amount = parseFloat(row[8]) || 0; // Line total in column I
-      
-      if (!locationSales[location]) locationSales[location] = 0;
-      locationSales[location] += amount;
-    });
+    const locationSales = Object.fromEntries(
+      measureByPair(getSalesCube(data), 'month', 'location', 'revenue', { products: [product] }).get(monthKey) || []
+    );
     
     // Find highest performing location
     let highestLocation = '';
@@ -662,19 +577,13 @@ If price optimization data is available, ALWAYS include specific price recommend
 // Add a helper function to calculate data insights
 function calculateDataInsights(data: any[]) {
   try {
-    const rows = data.slice(1); // Skip header row
+    const cube = getSalesCube(data);
     
     // Calculate basic stats
-    const totalSales = rows.reduce((sum, row) => sum + (parseFloat(row[8]) || 0), 0);
+    const totalSales = cubeTotals(cube).revenue;
     
     // Product sales
-    const productSales: Record<string, number> = {};
-    rows.forEach(row => {
-      const product = row[4]; // Product name
-      const amount = parseFloat(row[8]) || 0; // Line total
-      if (!productSales[product]) productSales[product] = 0;
-      productSales[product] += amount;
-    });
+    const productSales = Object.fromEntries(measureBy(cube, 'product'));
     
     // Top products
     const topProducts = Object.entries(productSales)
@@ -683,13 +592,7 @@ function calculateDataInsights(data: any[]) {
       .map(([product, sales]) => `${product}: $${sales.toLocaleString('en-US', {minimumFractionDigits: 2})}`);
     
     // Monthly sales
-    const monthlySales: Record<string, number> = {};
-    rows.forEach(row => {
-      const date = new Date(row[1]);
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      if (!monthlySales[monthKey]) monthlySales[monthKey] = 0;
-      monthlySales[monthKey] += parseFloat(row[8]) || 0;
-    });
+    const monthlySales = Object.fromEntries(measureBy(cube, 'month'));
     
     // Format monthly sales
     const formattedMonthlySales = Object.entries(monthlySales)
@@ -818,32 +721,11 @@ export async function handleBusinessIntelligence(query: string, data: any[]) {
       
       console.log("Processing data with", data.length, "rows");
       
-      // Process the data to generate business insights
-      const rows = data.slice(1); // Skip header row
-      
-      // Calculate product performance
-      const productSales: Record<string, number> = {};
-      const locationSales: Record<string, number> = {};
-      
-      rows.forEach((row, index) => {
-        try {
-          if (index < 10) console.log("Sample row:", JSON.stringify(row));
-          
-          const product = row[4]; // Product name
-          const location = row[3]; // Store location
-          const revenue = parseFloat(row[8] || '0'); // Revenue
-          
-          if (product && !isNaN(revenue)) {
-            productSales[product] = (productSales[product] || 0) + revenue;
-          }
-          
-          if (location && !isNaN(revenue)) {
-            locationSales[location] = (locationSales[location] || 0) + revenue;
-          }
-        } catch (e) {
-          console.error("Error processing row:", e, "Row:", JSON.stringify(row));
-        }
-      });
+      // Revenue by product and location from the shared cube, so these
+      // totals match the dashboard's
+      const cube = getSalesCube(data);
+      const productSales = Object.fromEntries(measureBy(cube, 'product', 'revenue'));
+      const locationSales = Object.fromEntries(measureBy(cube, 'location', 'revenue'));
       
       console.log("Processed data. Products:", Object.keys(productSales).length, "Locations:", Object.keys(locationSales).length);
       
@@ -902,7 +784,7 @@ Would you like more specific recommendations for any particular product or locat
   return null; // Return null if no handler matched
 }
 
-function generateRevenueByTimeReport(data: any[], query: string): string {
+function generateRevenueByTimeReport(data: unknown[], query: string): string {
   // Extract month from query
   const monthMatches = /january|february|march|april|may|june|july|august|september|october|november|december/i.exec(query);
   const targetMonth = monthMatches ? monthMatches[0].toLowerCase() : 'december';
@@ -911,38 +793,20 @@ function generateRevenueByTimeReport(data: any[], query: string): string {
   let totalRevenue = 0;
   const revenueByDay: Record<string, number> = {};
   
-  // Skip header row and process each row of data
-  data.slice(1).forEach(row => {
-    try {
-      const dateStr = row[1]; // Column B - Purchase_Date
-      const revenue = parseFloat(row[8] || '0'); // Column I - Line_Total
-      
-      // Skip invalid rows
-      if (!dateStr || isNaN(revenue)) {
-        return;
-      }
-      
-      // Parse date
-      const rowDate = new Date(dateStr);
-      if (isNaN(rowDate.getTime())) {
-        return;
-      }
-      
-      // Check if this row is from the target month
-      const rowMonth = rowDate.toLocaleString('en-US', { month: 'long' }).toLowerCase();
-      if (rowMonth !== targetMonth) {
-        return;
-      }
-      
-      // Add to total
-      totalRevenue += revenue;
-      
-      // Track by day
-      const dayKey = rowDate.toISOString().split('T')[0]; // YYYY-MM-DD
-      revenueByDay[dayKey] = (revenueByDay[dayKey] || 0) + revenue;
-    } catch (e) {
-      console.error("Error processing revenue data:", e);
+  // Validated transactions only; rejected rows are in the data quality report
+  parseTransactions(data).transactions.forEach(t => {
+    // Check if this row is from the target month
+    const rowMonth = t.purchaseDate.toLocaleString('en-US', { month: 'long' }).toLowerCase();
+    if (rowMonth !== targetMonth) {
+      return;
     }
+    
+    // Add to total
+    totalRevenue += t.lineTotal;
+    
+    // Track by day
+    const dayKey = toDayKey(t.purchaseDate);
+    revenueByDay[dayKey] = (revenueByDay[dayKey] || 0) + t.lineTotal;
   });
   
   // Format the response
@@ -970,97 +834,53 @@ function generateRevenueByTimeReport(data: any[], query: string): string {
   return `Revenue report for ${targetMonth}:\n\n${revenueData}`;
 }
 
-function generateStorePerformanceReport(data: any[]): string {
-  console.log("Generating store performance report with transaction grouping...");
-  
-  // Group transactions by Transaction_ID
-  const transactions: Record<string, {
-    store: string,
-    total: number,
-    items: number
-  }> = {};
-  
-  // Process data to create complete transactions
-  data.slice(1).forEach(row => { // Skip header row
-    try {
-      const transactionId = row[0]; // Column A - Transaction_ID
-      const storeLocation = row[3]; // Column D - Store_Location
-      const quantity = parseInt(row[6] || '1', 10); // Column G - Quantity
-      const lineTotal = parseFloat(row[8] || '0'); // Column I - Line_Total
-      
-      // Skip rows with missing or invalid data
-      if (!transactionId || !storeLocation || isNaN(lineTotal)) {
-        return;
-      }
-      
-      // Initialize transaction if not seen before
-      if (!transactions[transactionId]) {
-        transactions[transactionId] = {
-          store: storeLocation,
-          total: 0,
-          items: 0
-        };
-      }
-      
-      // Add line item to transaction
-      transactions[transactionId].total += lineTotal;
-      transactions[transactionId].items += quantity;
-    } catch (e) {
-      console.error("Error processing transaction data:", e);
-    }
-  });
+export interface StorePerformance {
+  location: string;
+  aov: number;
+  totalRevenue: number;
+  transactionCount: number;
+  itemsPerOrder: number;
+}
+
+// Per-store order metrics plus the company-wide averages, sorted by average
+// order value (highest first). Orders are distinct Transaction_IDs.
+export function calculateStorePerformance(data: unknown[], filter: CubeFilter = {}): {
+  stores: StorePerformance[];
+  companyAvg: { aov: number; itemsPerOrder: number };
+} {
+  const cube = getSalesCube(data);
   
-  // Calculate metrics by store location
-  const storeData: Record<string, {
-    totalRevenue: number,
-    transactionCount: number,
-    itemCount: number
-  }> = {};
+  const stores = queryCube(cube, ['location'], filter)
+    .filter(row => row.orders > 0)
+    .map(row => ({
+      location: row.key.location!,
+      aov: row.revenue / row.orders,
+      totalRevenue: row.revenue,
+      transactionCount: row.orders,
+      itemsPerOrder: row.units / row.orders
+    }))
+    .sort((a, b) => b.aov - a.aov);
   
-  // Group transaction data by store
-  Object.values(transactions).forEach(transaction => {
-    const { store, total, items } = transaction;
-    
-    if (!storeData[store]) {
-      storeData[store] = {
-        totalRevenue: 0,
-        transactionCount: 0,
-        itemCount: 0
-      };
+  const totals = cubeTotals(cube, filter);
+  return {
+    stores,
+    companyAvg: {
+      aov: totals.orders > 0 ? totals.revenue / totals.orders : 0,
+      itemsPerOrder: totals.orders > 0 ? totals.units / totals.orders : 0
     }
-    
-    storeData[store].totalRevenue += total;
-    storeData[store].transactionCount += 1;
-    storeData[store].itemCount += items;
-  });
-  
-  // Calculate average order value and other metrics for each store
-  const storeMetrics = Object.entries(storeData).map(([location, data]) => {
-    return {
-      location,
-      aov: data.totalRevenue / data.transactionCount,
-      totalRevenue: data.totalRevenue,
-      transactionCount: data.transactionCount,
-      itemsPerOrder: data.itemCount / data.transactionCount
-    };
-  });
+  };
+}
+
+function generateStorePerformanceReport(data: any[]): string {
+  console.log("Generating store performance report with transaction grouping...");
   
-  // Sort by average order value (highest first)
-  storeMetrics.sort((a, b) => b.aov - a.aov);
+  const { stores: storeMetrics, companyAvg } = calculateStorePerformance(data);
   
   // Ensure we have data before proceeding
   if (storeMetrics.length === 0) {
     return "I couldn't find any store performance data in the available records.";
   }
   
-  // Calculate company average for comparison
-  const companyAvg = {
-    aov: storeMetrics.reduce((sum, store) => sum + store.totalRevenue, 0) / 
-         storeMetrics.reduce((sum, store) => sum + store.transactionCount, 0),
-    itemsPerOrder: storeMetrics.reduce((sum, store) => sum + (store.itemsPerOrder * store.transactionCount), 0) / 
-                   storeMetrics.reduce((sum, store) => sum + store.transactionCount, 0)
-  };
-  
   // Format the response
   return `Based on complete transaction data across all locations, here are the average order values by store:
 
@@ -1077,7 +897,7 @@ Analysis of ${storeMetrics[0].location}'s transactions shows:
 The data comes from analyzing complete transactions (grouping all items purchased together) across all store locations.`;
 }
 
-function generateSeasonalProductComparison(data: any[]): string {
+function generateSeasonalProductComparison(data: unknown[]): string {
   console.log("Generating seasonal product comparison...");
   
   // Define all four seasons (Northern Hemisphere)
@@ -1094,48 +914,29 @@ function generateSeasonalProductComparison(data: any[]): string {
     winter: number 
   }> = {};
   
-  // Process data
-  data.slice(1).forEach(row => { // Skip header row
-    try {
-      const dateStr = row[1]; // Column B - Purchase_Date
-      const productName = row[4]; // Column E - Product_Name
-      const lineTotal = parseFloat(row[8] || '0'); // Column I - Line_Total
-      
-      // Skip invalid rows
-      if (!dateStr || !productName || isNaN(lineTotal)) {
-        return;
-      }
-      
-      // Parse date
-      const rowDate = new Date(dateStr);
-      if (isNaN(rowDate.getTime())) {
-        return;
-      }
-      
-      const rowMonth = rowDate.getMonth();
-      
-      // Initialize product if not seen before
-      if (!productSales[productName]) {
-        productSales[productName] = { 
-          spring: 0, 
-          summer: 0, 
-          fall: 0, 
-          winter: 0 
-        };
-      }
-      
-      // Add to appropriate season
-      if (springMonths.includes(rowMonth)) {
-        productSales[productName].spring += lineTotal;
-      } else if (summerMonths.includes(rowMonth)) {
-        productSales[productName].summer += lineTotal;
-      } else if (fallMonths.includes(rowMonth)) {
-        productSales[productName].fall += lineTotal;
-      } else if (winterMonths.includes(rowMonth)) {
-        productSales[productName].winter += lineTotal;
-      }
-    } catch (e) {
-      console.error("Error processing row for seasonal comparison:", e);
+  // Process validated transactions
+  parseTransactions(data).transactions.forEach(({ purchaseDate, productName, lineTotal }) => {
+    const rowMonth = purchaseDate.getMonth();
+    
+    // Initialize product if not seen before
+    if (!productSales[productName]) {
+      productSales[productName] = { 
+        spring: 0, 
+        summer: 0, 
+        fall: 0, 
+        winter: 0 
+      };
+    }
+    
+    // Add to appropriate season
+    if (springMonths.includes(rowMonth)) {
+      productSales[productName].spring += lineTotal;
+    } else if (summerMonths.includes(rowMonth)) {
+      productSales[productName].summer += lineTotal;
+    } else if (fallMonths.includes(rowMonth)) {
+      productSales[productName].fall += lineTotal;
+    } else if (winterMonths.includes(rowMonth)) {
+      productSales[productName].winter += lineTotal;
     }
   });
   
@@ -1244,8 +1045,6 @@ export async function handleLowPerformingProductsQuery(question: string, data: a
   console.log('Processing low performing products query:', question);
   
   try {
-    const rows = data.slice(1); // Skip header row
-    
     // Extract percentage from query if mentioned (default to 20%)
     const percentageMatch = question.match(/(\d+)%/);
     const percentage = percentageMatch ? parseInt(percentageMatch[1]) : 20;
@@ -1255,24 +1054,9 @@ export async function handleLowPerformingProductsQuery(question: string, data: a
     const productSales: Record<string, number> = {};
     const productQuantities: Record<string, number> = {};
     
-    rows.forEach(row => {
-      try {
-        const productName = row[4]; // Product name (column E)
-        const quantity = parseInt(row[6] || '1'); // Quantity (column G)
-        const sales = parseFloat(row[8] || '0'); // Sales amount (column I)
-        
-        if (!productName || isNaN(sales)) return;
-        
-        if (!productSales[productName]) {
-          productSales[productName] = 0;
-          productQuantities[productName] = 0;
-        }
-        
-        productSales[productName] += sales;
-        productQuantities[productName] += quantity;
-      } catch (e) {
-        console.error('Error processing row for product sales:', e);
-      }
+    queryCube(getSalesCube(data), ['product']).forEach(row => {
+      productSales[row.key.product!] = row.revenue;
+      productQuantities[row.key.product!] = row.units;
     });
     
     // Sort products by sales (lowest first)
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchSpreadsheetData, getDataMetadata, extractContext } from '@/lib/data';
 import { validateEnv } from '@/utils/env';
+import type { DatasetMeta } from '@/types/data';
+import { parseTransactions } from '@/lib/transactions';
+import { getSalesCube, measureBy, measureByPair } from '@/lib/cube';
 import { 
   handleTopProductsQuery, 
   handleLocationQuery, 
   handleImprovementQuery, 
   handleGeneralQuery,
-  handleBusinessIntelligence
+  handleBusinessIntelligence,
+  calculateStorePerformance
 } from './handlers';
 
 export const dynamic = 'force-dynamic'; // Prevent route caching
@@ -36,11 +40,11 @@ export async function POST(req: NextRequest) {
       const { handleLowPerformingProductsQuery } = await import('./handlers');
       
       // Fetch the data if not already done in existing code
-      const { data } = await fetchSpreadsheetData();
+      const { data, meta } = await fetchSpreadsheetData();
       
       // Call the handler
       const result = await handleLowPerformingProductsQuery(question, data);
-      if (result) return result;
+      if (result) return withMeta(result, meta);
     }
     
     // Validate environment variables
@@ -49,12 +53,13 @@ export async function POST(req: NextRequest) {
     
     // Fetch the spreadsheet data
     console.log('Fetching data...');
-    const { data } = await fetchSpreadsheetData();
+    const { data, meta } = await fetchSpreadsheetData();
     console.log('Data fetched successfully');
     
     // Get metadata about the data
     const metadata = getDataMetadata(data);
-    const rows = data.slice(1); // Skip header row
+    // Validated rows only, so answers match the dashboard's totals
+    const { transactions } = parseTransactions(data);
     
     // Check if this is a store average order value query
     if (queryLower.includes('store') && 
@@ -63,96 +68,17 @@ export async function POST(req: NextRequest) {
       
       console.log("Detected store average order value query");
       
-      // Group transactions by Transaction_ID
-      const transactions: Record<string, {
-        store: string,
-        total: number,
-        items: number
-      }> = {};
-      
-      // Process data to create complete transactions
-      data.slice(1).forEach(row => { // Skip header row
-        try {
-          const transactionId = row[0]; // Column A - Transaction_ID
-          const storeLocation = row[3]; // Column D - Store_Location
-          const quantity = parseInt(row[6] || '1', 10); // Column G - Quantity
-          const lineTotal = parseFloat(row[8] || '0'); // Column I - Line_Total
-          
-          // Skip rows with missing or invalid data
-          if (!transactionId || !storeLocation || isNaN(lineTotal)) {
-            return;
-          }
-          
-          // Initialize transaction if not seen before
-          if (!transactions[transactionId]) {
-            transactions[transactionId] = {
-              store: storeLocation,
-              total: 0,
-              items: 0
-            };
-          }
-          
-          // Add line item to transaction
-          transactions[transactionId].total += lineTotal;
-          transactions[transactionId].items += quantity;
-        } catch (e) {
-          console.error("Error processing transaction data:", e);
-        }
-      });
-      
-      // Calculate metrics by store location
-      const storeData: Record<string, {
-        totalRevenue: number,
-        transactionCount: number,
-        itemCount: number
-      }> = {};
-      
-      // Group transaction data by store
-      Object.values(transactions).forEach(transaction => {
-        const { store, total, items } = transaction;
-        
-        if (!storeData[store]) {
-          storeData[store] = {
-            totalRevenue: 0,
-            transactionCount: 0,
-            itemCount: 0
-          };
-        }
-        
-        storeData[store].totalRevenue += total;
-        storeData[store].transactionCount += 1;
-        storeData[store].itemCount += items;
-      });
-      
-      // Calculate average order value and other metrics for each store
-      const storeMetrics = Object.entries(storeData).map(([location, data]) => {
-        return {
-          location,
-          aov: data.totalRevenue / data.transactionCount,
-          totalRevenue: data.totalRevenue,
-          transactionCount: data.transactionCount,
-          itemsPerOrder: data.itemCount / data.transactionCount
-        };
-      });
-      
-      // Sort by average order value (highest first)
-      storeMetrics.sort((a, b) => b.aov - a.aov);
+      // Orders are distinct Transaction_IDs, sorted by average order value
+      const { stores: storeMetrics, companyAvg } = calculateStorePerformance(data);
       
       // Ensure we have data before proceeding
       if (storeMetrics.length === 0) {
         return NextResponse.json({ 
-          answer: "I couldn't find any store performance data in the available records." 
+          answer: "I couldn't find any store performance data in the available records.",
+          meta
         });
       }
       
-      // Calculate company average for comparison
-      const companyAvg = {
-        aov: storeMetrics.reduce((sum, store) => sum + store.totalRevenue, 0) / 
-             storeMetrics.reduce((sum, store) => sum + store.transactionCount, 0),
-        itemsPerOrder: storeMetrics.reduce((sum, store) => sum + (store.itemsPerOrder * store.transactionCount), 0) / 
-                       storeMetrics.reduce((sum, store) => sum + store.transactionCount, 0)
-      };
-      
       // Format the response
       return NextResponse.json({ 
         answer: `Based on complete transaction data across all locations, here are the average order values by store:
@@ -167,7 +93,8 @@ Analysis of ${storeMetrics[0].location}'s transactions shows:
 - Higher total revenue ($${storeMetrics[0].totalRevenue.toFixed(2)})
 - ${storeMetrics[0].transactionCount} total transactions processed
 
-The data comes from analyzing complete transactions (grouping all items purchased together) across all store locations.`
+The data comes from analyzing complete transactions (grouping all items purchased together) across all store locations.`,
+        meta
       });
     }
     
@@ -211,44 +138,10 @@ The data comes from analyzing complete transactions (grouping all items purchase
                             .indexOf(month);
         
         // Calculate revenue by location for this product in this time period
-        const locationRevenue: Record<string, number> = {};
-        
-        // Process data
-        data.slice(1).forEach(row => { // Skip header row
-          try {
-            const dateStr = row[1]; // Column B - Purchase_Date
-            const location = row[3]; // Column D - Store_Location
-            const productName = row[4]; // Column E - Product_Name
-            const lineTotal = parseFloat(row[8] || '0'); // Column I - Line_Total
-            
-            // Skip invalid rows
-            if (!dateStr || !location || !productName || isNaN(lineTotal)) {
-              return;
-            }
-            
-            // Check product match
-            if (productName !== product) {
-              return;
-            }
-            
-            // Parse date
-            const rowDate = new Date(dateStr);
-            if (isNaN(rowDate.getTime())) {
-              return;
-            }
-            
-            // Check month and year match
-            const rowMonth = rowDate.getMonth();
-            const rowYear = rowDate.getFullYear();
-            
-            if (rowMonth === monthIndex && rowYear === year) {
-              // Add to location revenue
-              locationRevenue[location] = (locationRevenue[location] || 0) + lineTotal;
-            }
-          } catch (e) {
-            console.error("Error processing row for location revenue:", e);
-          }
-        });
+        const monthKey = `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+        const locationRevenue = Object.fromEntries(
+          measureByPair(getSalesCube(data), 'month', 'location', 'revenue', { products: [product] }).get(monthKey) || []
+        );
         
         // Sort locations by revenue
         const sortedLocations = Object.entries(locationRevenue)
@@ -256,7 +149,8 @@ The data comes from analyzing complete transactions (grouping all items purchase
         
         if (sortedLocations.length === 0) {
           return NextResponse.json({ 
-            answer: `I couldn't find any sales data for ${product} in ${month} ${year}.` 
+            answer: `I couldn't find any sales data for ${product} in ${month} ${year}.`,
+            meta
           });
         }
         
@@ -289,12 +183,13 @@ ${sortedLocations.map(([loc, rev], i) =>
             return NextResponse.json({ 
               answer: typeof responseBody.answer === 'string' 
                 ? responseBody.answer 
-                : JSON.stringify(responseBody.answer) || "I couldn't analyze the sales data correctly. Please try again."
+                : JSON.stringify(responseBody.answer) || "I couldn't analyze the sales data correctly. Please try again.",
+                meta
             });
           }
         }
         
-        return NextResponse.json({ answer });
+        return NextResponse.json({ answer, meta });
       }
     }
     
@@ -347,7 +242,7 @@ ${sortedLocations.map(([loc, rev], i) =>
           try {
             // Generate direct sales report for the specified month and year
             const salesData = await generateDirectForecast(data, month, year);
-            return NextResponse.json({ answer: salesData });
+            return NextResponse.json({ answer: salesData, meta });
           } catch (error) {
             console.error(`Error processing ${month} ${year} data:`, error);
           }
@@ -356,7 +251,7 @@ ${sortedLocations.map(([loc, rev], i) =>
       
       // Fallback to regular business intelligence handler
       const formattedResponse = await handleBusinessIntelligence(question, data);
-      return NextResponse.json({ answer: formattedResponse });
+      return NextResponse.json({ answer: formattedResponse, meta });
     }
     
     // DIRECT QUERY HANDLERS FOR COMMON QUESTIONS
@@ -413,20 +308,16 @@ ${sortedLocations.map(([loc, rev], i) =>
       let monthlySales = 0;
       let orderCount = 0;
       
-      for (const row of rows) {
-        const rowProduct = row[4];
-        
+      for (const t of transactions) {
         // Skip non-matching products
-        if (rowProduct !== productMatch) continue;
+        if (t.productName !== productMatch) continue;
         
-        // Parse date correctly
-        const rowDate = new Date(row[1]);
-        const rowMonth = rowDate.getMonth();
-        const rowYear = rowDate.getFullYear();
+        const rowMonth = t.purchaseDate.getMonth();
+        const rowYear = t.purchaseDate.getFullYear();
         
         // Check exact month and year match
         if (rowMonth === targetMonth && rowYear === targetYear) {
-          monthlySales += parseFloat(row[8]) || 0;
+          monthlySales += t.lineTotal;
           orderCount++;
         }
       }
@@ -438,7 +329,8 @@ ${sortedLocations.map(([loc, rev], i) =>
       console.log(`Returning direct answer: Sales for ${productMatch} in ${monthMatch[1]} ${year} were $${monthlySales.toLocaleString('en-US', {minimumFractionDigits: 2})}`);
       
       return NextResponse.json({ 
-        answer: `Sales for ${productMatch} in ${monthMatch[1]} ${year} were $${monthlySales.toLocaleString('en-US', {minimumFractionDigits: 2})}.`
+        answer: `Sales for ${productMatch} in ${monthMatch[1]} ${year} were $${monthlySales.toLocaleString('en-US', {minimumFractionDigits: 2})}.`,
+        meta
       });
     }
     
@@ -470,20 +362,16 @@ ${sortedLocations.map(([loc, rev], i) =>
       // Calculate sales directly for this location+month
       let monthlySales = 0;
       
-      for (const row of rows) {
-        const rowLocation = row[3];
-        
+      for (const t of transactions) {
         // Skip non-matching locations
-        if (rowLocation !== locationMatch) continue;
+        if (t.storeLocation !== locationMatch) continue;
         
-        // Parse date correctly
-        const rowDate = new Date(row[1]);
-        const rowMonth = rowDate.getMonth();
-        const rowYear = rowDate.getFullYear();
+        const rowMonth = t.purchaseDate.getMonth();
+        const rowYear = t.purchaseDate.getFullYear();
         
         // Check exact month and year match
         if (rowMonth === targetMonth && rowYear === targetYear) {
-          monthlySales += parseFloat(row[8]) || 0;
+          monthlySales += t.lineTotal;
         }
       }
       
@@ -491,7 +379,8 @@ ${sortedLocations.map(([loc, rev], i) =>
       console.log(`Returning direct answer: Sales for ${locationMatch} in ${monthMatch[1]} ${year} were $${monthlySales.toLocaleString('en-US', {minimumFractionDigits: 2})}`);
       
       return NextResponse.json({ 
-        answer: `Sales for the ${locationMatch} location in ${monthMatch[1]} ${year} were $${monthlySales.toLocaleString('en-US', {minimumFractionDigits: 2})}.`
+        answer: `Sales for the ${locationMatch} location in ${monthMatch[1]} ${year} were $${monthlySales.toLocaleString('en-US', {minimumFractionDigits: 2})}.`,
+        meta
       });
     }
     
@@ -529,18 +418,16 @@ ${sortedLocations.map(([loc, rev], i) =>
       
       console.log(`Analyzing sales for ${month} ${year} (month index: ${targetMonth})`);
       
-      for (const row of rows) {
-        const rowProduct = row[4];
-        if (!rowProduct) continue;
+      for (const t of transactions) {
+        const rowProduct = t.productName;
         
-        // Parse date correctly - ENSURE SAME DATE PARSING AS OTHER HANDLERS
-        const rowDate = new Date(row[1]);
-        const rowMonth = rowDate.getMonth();
-        const rowYear = rowDate.getFullYear();
+        // Same parsed dates as the other handlers
+        const rowMonth = t.purchaseDate.getMonth();
+        const rowYear = t.purchaseDate.getFullYear();
         
         // Debug date issues
         if (month === 'december' && rowProduct === 'Protein Acai Bowl') {
-          console.log(`Row date: ${row[1]}, parsed as month: ${rowMonth}, year: ${rowYear}`);
+          console.log(`Row date: ${t.purchaseDate.toISOString()}, parsed as month: ${rowMonth}, year: ${rowYear}`);
         }
         
         // Check exact month and year match
@@ -549,7 +436,7 @@ ${sortedLocations.map(([loc, rev], i) =>
             productSales[rowProduct] = 0;
           }
           
-          const amount = parseFloat(row[8]) || 0;
+          const amount = t.lineTotal;
           productSales[rowProduct] += amount;
           
           // Debug protein acai bowl specifically
@@ -574,7 +461,7 @@ ${sortedLocations.map(([loc, rev], i) =>
       });
       
       console.log(`Returning direct answer for top products query`);
-      return NextResponse.json({ answer });
+      return NextResponse.json({ answer, meta });
     }
     
     // If not a direct factual query, use the regular handler
@@ -603,26 +490,34 @@ ${sortedLocations.map(([loc, rev], i) =>
         
         // COMPLETELY DIFFERENT APPROACH: Use NextResponse instead of Response
         return NextResponse.json({ 
-          answer: answer 
+          answer: answer,
+          meta
         });
       } catch (error) {
         console.error("Error in business intelligence handler:", error);
         return NextResponse.json({ 
-          answer: "Error analyzing business data" 
+          answer: "Error analyzing business data",
+          meta
         }, { status: 500 });
       }
     }
 
     // If we reach here, use the general query handler
     console.log("Using general query handler");
-    return await handleGeneralQuery(question, conversation, data, context);
+    return withMeta(await handleGeneralQuery(question, conversation, data, context), meta);
   } catch (error) {
     console.error('Error in chat API:', error);
     return NextResponse.json({ error: "Failed to process your question" }, { status: 500 });
   }
 }
 
-async function generateDirectForecast(data: any[], month: string, year: number): Promise<string> {
+// The handlers build their own responses; add the dataset meta to them
+async function withMeta(response: Response, meta: DatasetMeta): Promise<NextResponse> {
+  const body = await response.json();
+  return NextResponse.json({ ...body, meta }, { status: response.status });
+}
+
+async function generateDirectForecast(data: unknown[], month: string, year: number): Promise<string> {
   console.log(`Generating sales report for ${month} ${year}`);
   
   // Get month index (0-11) from month name
@@ -640,55 +535,10 @@ async function generateDirectForecast(data: any[], month: string, year: number):
   // Get product revenue for the specified month
   const productRevenue: Record<string, number> = {};
   
-  // Process data to find products with revenue in the specified month
-  data.slice(1).forEach((row, idx) => { // Skip header row
-    try {
-      const dateStr = row[1]; // Column B - Purchase_Date (format: "2024-12-30 20:49:24")
-      const productName = row[4]; // Column E - Product_Name
-      const lineTotal = parseFloat(row[8] || '0'); // Column I - Line_Total
-      
-      // Skip rows with missing data
-      if (!dateStr || !productName || isNaN(lineTotal)) {
-        return;
-      }
-      
-      // Parse the date - handle the format "2024-12-30 20:49:24"
-      let rowDate: Date;
-      
-      try {
-        // First try the standard Date parsing
-        rowDate = new Date(dateStr);
-        
-        // If that fails (invalid date), try manual parsing
-        if (isNaN(rowDate.getTime())) {
-          // Try to extract YYYY-MM-DD from the string
-          const dateParts = dateStr.match(/(\d{4})-(\d{2})-(\d{2})/);
-          if (dateParts) {
-            rowDate = new Date(
-              parseInt(dateParts[1]), // year
-              parseInt(dateParts[2]) - 1, // month (0-indexed)
-              parseInt(dateParts[3]) // day
-            );
-          } else {
-            console.warn(`Could not parse date: ${dateStr}`);
-            return;
-          }
-        }
-      } catch (e) {
-        console.warn(`Error parsing date: ${dateStr}`, e);
-        return;
-      }
-      
-      // Check if this row is from the target month and year
-      const rowMonth = rowDate.getMonth();
-      const rowYear = rowDate.getFullYear();
-      
-      // Only include rows from the target month and year
-      if (rowMonth === monthIndex && rowYear === year) {
-        productRevenue[productName] = (productRevenue[productName] || 0) + lineTotal;
-      }
-    } catch (e) {
-      console.error("Error processing row for sales data:", e);
+  // Validated transactions in the specified month
+  parseTransactions(data).transactions.forEach(({ purchaseDate, productName, lineTotal }) => {
+    if (purchaseDate.getMonth() === monthIndex && purchaseDate.getFullYear() === year) {
+      productRevenue[productName] = (productRevenue[productName] || 0) + lineTotal;
     }
   });
   
@@ -712,31 +562,11 @@ ${topProducts.length > 0 ?
 }
 
 // Helper function that directly returns a string, not a Response object
-async function generateBusinessIntelligenceResponse(query: string, data: any[]): Promise<string> {
-  // Process the data to generate business insights
-  const rows = data.slice(1); // Skip header row
-  
-  // Calculate product performance
-  const productSales: Record<string, number> = {};
-  const locationSales: Record<string, number> = {};
-  
-  rows.forEach((row, index) => {
-    try {
-      const product = row[4]; // Product name
-      const location = row[3]; // Store location
-      const revenue = parseFloat(row[8] || '0'); // Revenue
-      
-      if (product && !isNaN(revenue)) {
-        productSales[product] = (productSales[product] || 0) + revenue;
-      }
-      
-      if (location && !isNaN(revenue)) {
-        locationSales[location] = (locationSales[location] || 0) + revenue;
-      }
-    } catch (e) {
-      console.error("Error processing row:", e);
-    }
-  });
+async function generateBusinessIntelligenceResponse(query: string, data: unknown[]): Promise<string> {
+  // Revenue by product and location from the shared cube
+  const cube = getSalesCube(data);
+  const productSales = Object.fromEntries(measureBy(cube, 'product', 'revenue'));
+  const locationSales = Object.fromEntries(measureBy(cube, 'location', 'revenue'));
   
   // Get top products and locations
   const topProducts = Object.entries(productSales)
@@ -1,39 +1,11 @@
 import { NextResponse } from 'next/server';
-import { google } from 'googleapis';
-import { validateEnv } from '@/utils/env';
-// Alternative options:
-// import { getEnv } from '@/utils/env';
-// import env from '@/utils/env';
+import { fetchSpreadsheetData } from '@/lib/data';
 
-// Use this approach which is common in Next.js apps
 export async function POST(request: Request) {
   try {
-    console.log('Chatbot: Using authentication method from recommendations route...');
+    console.log('Chatbot: Fetching sales data...');
     
-    // Use the validated environment variables
-    const env = validateEnv();
-
-    // Use the same GoogleAuth pattern as recommendations
-    const auth = new google.auth.GoogleAuth({
-      credentials: {
-        client_email: env.GOOGLE_CLIENT_EMAIL,
-        private_key: env.GOOGLE_PRIVATE_KEY.split('\\n').join('\n'),
-        project_id: env.GOOGLE_PROJECT_ID
-      },
-      scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-    });
-
-    // Get client and create sheets instance
-    const client = await auth.getClient();
-    const sheets = google.sheets({ version: 'v4', auth: client as any });
-    
-    // Fetch data
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: env.SPREADSHEET_ID,
-      range: 'Sheet1!A1:I10001',
-    });
-
-    const rows = response.data.values || [];
+    const { data: rows, meta } = await fetchSpreadsheetData();
     
     if (rows.length <= 1) {
       console.warn("Spreadsheet returned no data or only headers");
@@ -52,7 +24,7 @@ export async function POST(request: Request) {
       }, {} as Record<string, any>);
     });
 
-    return NextResponse.json({ success: true, data });
+    return NextResponse.json({ success: true, data, meta });
   } catch (error) {
     console.error('Error in chatbot data API:', error);
     
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { parseTransactions } from '@/lib/transactions';
+
+export const dynamic = 'force-dynamic';
+
+// Data-quality report: how many rows the dashboard numbers are based on,
+// and why the rest were rejected or flagged
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const limit = Math.max(0, parseInt(url.searchParams.get('limit') || '100', 10) || 0);
+    const severity = url.searchParams.get('severity'); // 'error' | 'warning' | null
+
+    const { data, source, meta } = await fetchSpreadsheetData();
+    const { report } = parseTransactions(data);
+
+    const issues = severity
+      ? report.issues.filter(issue => issue.severity === severity)
+      : report.issues;
+
+    return NextResponse.json({
+      source,
+      ...report,
+      issues: issues.slice(0, limit),
+      issuesTruncated: issues.length > limit,
+      meta
+    });
+  } catch (error) {
+    console.error('Data quality API Error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to build data quality report'
+    }, {
+      status: 500
+    });
+  }
+}
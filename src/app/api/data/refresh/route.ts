@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { refreshSpreadsheetData } from '@/lib/data';
+
+export const dynamic = 'force-dynamic';
+
+// Forces a reload of the shared dataset cache (e.g. after editing the sheet)
+export async function POST() {
+  try {
+    console.log('Dataset refresh requested');
+    const { meta } = await refreshSpreadsheetData();
+    
+    return NextResponse.json({ success: true, meta });
+  } catch (error) {
+    console.error('Data refresh API Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to refresh data'
+    }, {
+      status: 500
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube } from '@/lib/cube';
+import { calculateGrowth, compareWithLastYear, getMonthlySeries } from '@/lib/growth';
+import type { RecommendationTargetType } from '@/lib/growth';
+
+export const dynamic = 'force-dynamic';
+
+// Numbers behind a recommendation card: the monthly revenue series for a
+// store or product and the two months the recommendation compared
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const target = url.searchParams.get('target');
+    const type = url.searchParams.get('type') as RecommendationTargetType | null;
+
+    if (!target) {
+      return NextResponse.json({ error: 'target is required' }, { status: 400 });
+    }
+    if (type !== 'store' && type !== 'product') {
+      return NextResponse.json({ error: 'type must be "store" or "product"' }, { status: 400 });
+    }
+
+    const { data, meta } = await fetchSpreadsheetData();
+    const series = getMonthlySeries(getSalesCube(data), type, target);
+
+    if (!series) {
+      return NextResponse.json({ error: `No ${type} named "${target}" found in data` }, { status: 404 });
+    }
+
+    const growth = calculateGrowth(series);
+    // Growth from a $0 month is undefined rather than infinite
+    const comparable = growth !== null && growth.previousValue !== 0;
+
+    return NextResponse.json({
+      target,
+      type,
+      series: Array.from(series.entries()).map(([month, value]) => ({ month, value })),
+      previousMonth: growth?.previousMonth ?? null,
+      currentMonth: growth?.currentMonth ?? null,
+      previousValue: growth?.previousValue ?? null,
+      currentValue: growth?.currentValue ?? null,
+      growth: comparable ? growth!.growth : null,
+      percentChange: comparable ? growth!.growth * 100 : null,
+      // Same change a year earlier, so a seasonal dip can be told from a real one
+      seasonality: growth ? compareWithLastYear(series, growth) : null,
+      meta
+    });
+  } catch (error) {
+    console.error('Data values API Error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to fetch values'
+    }, {
+      status: 500
+    });
+  }
+}
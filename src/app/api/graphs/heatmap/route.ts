@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube, queryCube } from '@/lib/cube';
+import type { SalesCube, CubeFilter } from '@/lib/cube';
+import { parseDateFilter } from '@/lib/timeRange';
+import { parseDimensionFilter } from '@/lib/filters';
+import { WEEKDAY_NAMES } from '@/lib/periods';
+
+export const dynamic = 'force-dynamic';
+
+// Rows run Monday to Sunday, matching how schedules are planned
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type HeatmapMatrix = number[][]; // [weekday row][hour 0-23]
+
+function generateHeatmap(cube: SalesCube, filter: CubeFilter): {
+  revenue: HeatmapMatrix;
+  orders: HeatmapMatrix;
+  maxRevenue: number;
+  maxOrders: number;
+} {
+  console.log('Generating day-of-week × hour heatmap');
+  const empty = () => WEEKDAY_ORDER.map(() => new Array(24).fill(0));
+  const revenue = empty();
+  const orders = empty();
+
+  queryCube(cube, ['weekday', 'hour'], filter).forEach(row => {
+    const dayIndex = WEEKDAY_ORDER.indexOf(parseInt(row.key.weekday!));
+    const hour = parseInt(row.key.hour!);
+    revenue[dayIndex][hour] = row.revenue;
+    orders[dayIndex][hour] = row.orders;
+  });
+
+  return {
+    revenue,
+    orders,
+    maxRevenue: Math.max(0, ...revenue.flat()),
+    maxOrders: Math.max(0, ...orders.flat())
+  };
+}
+
+// 7×24 revenue/orders matrix; accepts the same range and product/location/
+// discount code filters as /api/graphs
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+
+    let filter: CubeFilter;
+    try {
+      filter = { ...parseDateFilter(url.searchParams, cube.lastDay), ...parseDimensionFilter(url.searchParams) };
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Invalid date range'
+      }, {
+        status: 400
+      });
+    }
+
+    return NextResponse.json({
+      weekdays: WEEKDAY_ORDER.map(day => WEEKDAY_NAMES[day]),
+      hours: Array.from({ length: 24 }, (_, hour) => hour),
+      ...generateHeatmap(cube, filter),
+      range: { from: filter.from || cube.firstDay, to: filter.to || cube.lastDay },
+      meta
+    });
+  } catch (error) {
+    console.error('Heatmap API Error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to build heatmap'
+    }, {
+      status: 500
+    });
+  }
+}
@@ -1,10 +1,25 @@
 import { NextResponse } from 'next/server';
-import { google } from 'googleapis';
-import { validateEnv } from '@/utils/env';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { parseTransactions } from '@/lib/transactions';
+import { getSalesCube, queryCube, measureBy } from '@/lib/cube';
+import type { SalesCube, CubeFilter } from '@/lib/cube';
+import { parseDateFilter, validateDayKey } from '@/lib/timeRange';
+import {
+  comparePeriods,
+  previousPeriodRange,
+  previousYearRange,
+  COMPARISON_BASELINES
+} from '@/lib/comparison';
+import type { ComparisonBaseline, DayRange, PeriodComparison } from '@/lib/comparison';
+import { parseDimensionFilter, NO_DISCOUNT_CODE } from '@/lib/filters';
+import { GRANULARITIES, daysBetween, enumeratePeriods, formatPeriodLabel } from '@/lib/periods';
+import type { Granularity } from '@/lib/periods';
+import { generateMetricSeries } from '@/lib/metrics';
 import type { ApiError } from '@/types/api';
 
 type TimeSeriesData = {
   date: string;
+  period?: string; // period key, e.g. '2024-W41'
   value: number;
   category?: string;
 }[];
@@ -12,227 +27,257 @@ type TimeSeriesData = {
 type PieChartData = {
   name: string;
   value: number;
+  otherCount?: number; // set on the "Other" slice: how many entries it combines
 }[];
 
-// Add utility function to filter by date range
-function filterByTimeRange(rows: any[], timeRange: string): any[] {
-  const currentDate = new Date();
-  let startDate: Date;
-  
-  switch (timeRange) {
-    case '30days':
-      startDate = new Date(currentDate);
-      startDate.setDate(currentDate.getDate() - 30);
-      break;
-    case '90days':
-      startDate = new Date(currentDate);
-      startDate.setDate(currentDate.getDate() - 90);
-      break;
-    case '6months':
-      startDate = new Date(currentDate);
-      startDate.setMonth(currentDate.getMonth() - 6);
-      break;
-    case '1year':
-      startDate = new Date(currentDate);
-      startDate.setFullYear(currentDate.getFullYear() - 1);
-      break;
-    default: // 'all' or any other value
-      return rows; // Return all rows if no specific range
+type RankedBreakdown = {
+  rank: number;
+  name: string;
+  value: number;
+  percentage: number; // share of revenue in the filtered range (0-100)
+  orders: number;
+  units: number;
+}[];
+
+const OTHER_SLICE = 'Other';
+const DEFAULT_TOP_N = 6;
+
+// Cap on points in a trend series; about four years of days
+const MAX_TREND_PERIODS = 1500;
+const DAYS_PER_PERIOD: Record<Granularity, number> = { day: 1, week: 7, month: 30, quarter: 91, year: 365 };
+
+// Rejects ranges that would need more than MAX_TREND_PERIODS trend points
+function validatePeriodCount(name: string, range: DayRange, granularity: Granularity): void {
+  const periods = Math.ceil((daysBetween(range.from, range.to) + 1) / DAYS_PER_PERIOD[granularity]);
+  if (periods > MAX_TREND_PERIODS) {
+    throw new Error(`${name} spans about ${periods} ${granularity}s (at most ${MAX_TREND_PERIODS}); narrow it or use a coarser granularity`);
   }
-  
-  return rows.filter(row => {
-    if (!row[1]) return false;
-    const rowDate = new Date(row[1]);
-    return !isNaN(rowDate.getTime()) && rowDate >= startDate;
-  });
 }
 
 // Functions to process data for different chart types
-function generateRevenueTrend(data: any[], timeRange: string): TimeSeriesData {
-  console.log('Generating revenue trend data');
-  const rows = data.slice(1); // Skip header
-  const filteredRows = filterByTimeRange(rows, timeRange);
+function generateRevenueTrend(cube: SalesCube, filter: CubeFilter, granularity: Granularity): TimeSeriesData {
+  console.log(`Generating revenue trend data by ${granularity}`);
   
-  // Group by month
-  const monthlyRevenue = new Map<string, number>();
+  // Group by the requested period
+  const revenueByPeriod = measureBy(cube, granularity, 'revenue', filter);
   
-  filteredRows.forEach(row => {
-    if (!row[1]) return; // Skip if no date
-    
-    const date = new Date(row[1]);
-    if (isNaN(date.getTime())) return; // Skip invalid dates
-    
-    const monthKey = `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
-    const sales = parseFloat(row[8]) || 0;
-    
-    monthlyRevenue.set(monthKey, (monthlyRevenue.get(monthKey) || 0) + sales);
-  });
+  // Fill periods without sales with zero so gaps are visible on the chart
+  const from = filter.from || cube.firstDay;
+  const to = filter.to || cube.lastDay;
+  if (!from || !to) return [];
   
-  // Convert to array format for chart
-  return Array.from(monthlyRevenue.entries())
-    .sort((a, b) => a[0].localeCompare(b[0])) // Sort by date
-    .map(([month, sales]) => {
-      // Format the month for display
-      const [year, monthNum] = month.split('-');
-      const date = new Date(parseInt(year), parseInt(monthNum) - 1);
-      const monthName = date.toLocaleString('default', { month: 'short' });
-      
-      return {
-        date: `${monthName} ${year}`,
-        value: sales
-      };
-    });
+  return enumeratePeriods(from, to, granularity).map(period => ({
+    date: formatPeriodLabel(period, granularity),
+    period,
+    value: revenueByPeriod.get(period) || 0
+  }));
 }
 
-function generateRevenueByLocation(data: any[], timeRange: string): PieChartData {
-  console.log('Generating revenue by location data');
-  const rows = data.slice(1); // Skip header
-  const filteredRows = filterByTimeRange(rows, timeRange);
-  
-  // Group by location
-  const locationRevenue = new Map<string, number>();
+// Ranks a dimension by revenue. The pie gets the top N plus an "Other"
+// slice for the rest; the ranked list keeps every entry for the table view.
+function generateBreakdown(
+  cube: SalesCube,
+  dimension: 'location' | 'product',
+  filter: CubeFilter,
+  topN: number
+): { slices: PieChartData; ranked: RankedBreakdown } {
+  console.log(`Generating revenue by ${dimension} data (top ${topN})`);
   
-  filteredRows.forEach(row => {
-    const location = row[3]; // Store location column
-    if (!location) return;
-    
-    const sales = parseFloat(row[8]) || 0;
-    locationRevenue.set(location, (locationRevenue.get(location) || 0) + sales);
-  });
+  const rows = queryCube(cube, [dimension], filter)
+    .sort((a, b) => b.revenue - a.revenue); // Sort by revenue (highest first)
+  const total = rows.reduce((sum, row) => sum + row.revenue, 0);
   
-  // Convert to array format for chart
-  return Array.from(locationRevenue.entries())
-    .sort((a, b) => b[1] - a[1]) // Sort by revenue (highest first)
-    .slice(0, 6) // Take top 6 for readability
-    .map(([location, sales]) => ({
-      name: location,
-      value: sales
-    }));
-}
-
-function generateRevenueByProduct(data: any[], timeRange: string): PieChartData {
-  console.log('Generating revenue by product data');
-  const rows = data.slice(1); // Skip header
-  const filteredRows = filterByTimeRange(rows, timeRange);
-  
-  // Group by product
-  const productRevenue = new Map<string, number>();
+  const ranked = rows.map((row, index) => ({
+    rank: index + 1,
+    name: row.key[dimension]!,
+    value: row.revenue,
+    percentage: total > 0 ? (row.revenue / total) * 100 : 0,
+    orders: row.orders,
+    units: row.units
+  }));
   
-  filteredRows.forEach(row => {
-    const product = row[4]; // Product name column
-    if (!product) return;
-    
-    const sales = parseFloat(row[8]) || 0;
-    productRevenue.set(product, (productRevenue.get(product) || 0) + sales);
-  });
+  const slices: PieChartData = ranked.slice(0, topN).map(({ name, value }) => ({ name, value }));
+  const rest = ranked.slice(topN);
+  if (rest.length > 0) {
+    slices.push({
+      name: OTHER_SLICE,
+      value: rest.reduce((sum, entry) => sum + entry.value, 0),
+      otherCount: rest.length
+    });
+  }
   
-  // Convert to array format for chart
-  return Array.from(productRevenue.entries())
-    .sort((a, b) => b[1] - a[1]) // Sort by revenue (highest first)
-    .slice(0, 6) // Take top 6 for readability
-    .map(([product, sales]) => ({
-      name: product,
-      value: sales
-    }));
+  return { slices, ranked };
 }
 
-function generateMonthlyComparison(data: any[], timeRange: string): any[] {
+function generateMonthlyComparison(cube: SalesCube, filter: CubeFilter): {
+  rows: { month: string; current: number; previous: number }[];
+  years: { current: number | null; previous: number | null; previousHasData: boolean };
+} {
   console.log('Generating monthly comparison data');
-  const rows = data.slice(1); // Skip header
-  const filteredRows = filterByTimeRange(rows, timeRange);
-  
-  // Group by month and year
-  const monthlyRevenue = new Map<string, Map<number, number>>();
-  
-  filteredRows.forEach(row => {
-    if (!row[1]) return; // Skip if no date
-    
-    const date = new Date(row[1]);
-    if (isNaN(date.getTime())) return; // Skip invalid dates
-    
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const monthName = date.toLocaleString('default', { month: 'short' });
-    
-    if (!monthlyRevenue.has(monthName)) {
-      monthlyRevenue.set(monthName, new Map<number, number>());
-    }
-    
-    const yearMap = monthlyRevenue.get(monthName)!;
-    const sales = parseFloat(row[8]) || 0;
-    yearMap.set(year, (yearMap.get(year) || 0) + sales);
-  });
   
-  // Get the two most recent years
-  const years = Array.from(
-    new Set(
-      filteredRows
-        .map(row => new Date(row[1]).getFullYear())
-        .filter(year => !isNaN(year))
-    )
-  ).sort((a, b) => b - a).slice(0, 2);
+  // Revenue by 'YYYY-MM'
+  const monthlyRevenue = measureBy(cube, 'month', 'revenue', filter);
   
-  const currentYear = years[0];
-  const previousYear = years[1] || currentYear - 1;
+  // Compare the most recent year with the calendar year before it. If that
+  // year has no sales the "previous" bars are zero and previousHasData says so.
+  const years = Array.from(monthlyRevenue.keys()).map(month => parseInt(month.split('-')[0]));
+  const currentYear = years.length > 0 ? Math.max(...years) : null;
+  const previousYear = currentYear !== null ? currentYear - 1 : null;
   
   // Generate comparison data
   const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const revenueFor = (year: number | null, monthIndex: number) =>
+    year !== null ? monthlyRevenue.get(`${year}-${String(monthIndex + 1).padStart(2, '0')}`) || 0 : 0;
   
-  return monthNames.map(month => ({
-    month,
-    current: (monthlyRevenue.get(month)?.get(currentYear) || 0),
-    previous: (monthlyRevenue.get(month)?.get(previousYear) || 0)
-  }));
+  return {
+    rows: monthNames.map((month, index) => ({
+      month,
+      current: revenueFor(currentYear, index),
+      previous: revenueFor(previousYear, index)
+    })),
+    years: {
+      current: currentYear,
+      previous: previousYear,
+      previousHasData: years.includes(previousYear as number)
+    }
+  };
+}
+
+// Resolves the baseline range for ?compare=previousPeriod|previousYear|custom
+function resolveComparisonBaseline(searchParams: URLSearchParams, current: DayRange): DayRange | null {
+  const compare = searchParams.get('compare');
+  if (!compare) return null;
+  
+  if (!COMPARISON_BASELINES.includes(compare as ComparisonBaseline)) {
+    throw new Error(`compare must be one of ${COMPARISON_BASELINES.join(', ')}`);
+  }
+  if (compare === 'previousPeriod') return previousPeriodRange(current);
+  if (compare === 'previousYear') return previousYearRange(current);
+  
+  const compareFrom = searchParams.get('compareFrom');
+  const compareTo = searchParams.get('compareTo');
+  if (!compareFrom || !compareTo) {
+    throw new Error('compare=custom requires compareFrom and compareTo');
+  }
+  validateDayKey('compareFrom', compareFrom);
+  validateDayKey('compareTo', compareTo);
+  if (compareFrom > compareTo) {
+    throw new Error(`compareFrom (${compareFrom}) must not be after compareTo (${compareTo})`);
+  }
+  return { from: compareFrom, to: compareTo };
 }
 
 export async function GET(request: Request) {
   try {
     console.log('Graphs API endpoint called');
     
-    // Extract timeRange from query parameters
+    // Extract timeRange (or explicit from/to) from query parameters
     const url = new URL(request.url);
     const timeRange = url.searchParams.get('timeRange') || 'all';
-    console.log('Time range requested:', timeRange);
+    console.log('Time range requested:', timeRange, url.searchParams.get('from'), url.searchParams.get('to'));
     
-    const env = validateEnv();
+    const { data, meta } = await fetchSpreadsheetData();
+    const { report } = parseTransactions(data);
+    const cube = getSalesCube(data);
+    console.log(`Data loaded. Total rows: ${data.length}`);
     
-    // Setup Google Sheets API
-    const auth = new google.auth.GoogleAuth({
-      credentials: {
-        client_email: env.GOOGLE_CLIENT_EMAIL,
-        private_key: env.GOOGLE_PRIVATE_KEY,
-        project_id: env.GOOGLE_PROJECT_ID
-      },
-      scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-    });
-
-    const client = await auth.getClient();
-    const sheets = google.sheets({ version: 'v4', auth: client as any });
+    // Presets are anchored to the latest sale in the data, not today
+    let filter: CubeFilter;
+    try {
+      filter = parseDateFilter(url.searchParams, cube.lastDay);
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Invalid date range'
+      }, {
+        status: 400
+      });
+    }
     
-    console.log('Fetching spreadsheet data...');
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: env.SPREADSHEET_ID,
-      range: 'Sheet1!A1:I10001',
-    });
-
-    if (!response.data.values) {
-      throw new Error('No data found in spreadsheet');
+    const granularity = (url.searchParams.get('granularity') || 'month') as Granularity;
+    if (!GRANULARITIES.includes(granularity)) {
+      return NextResponse.json({
+        error: `granularity must be one of ${GRANULARITIES.join(', ')}`
+      }, {
+        status: 400
+      });
     }
-
-    const data = response.data.values;
-    console.log(`Data loaded. Total rows: ${data.length}`);
     
-    // Generate chart data
-    const revenueTrend = generateRevenueTrend(data, timeRange);
-    const revenueByLocation = generateRevenueByLocation(data, timeRange);
-    const revenueByProduct = generateRevenueByProduct(data, timeRange);
-    const monthlyComparison = generateMonthlyComparison(data, timeRange);
+    const topN = parseInt(url.searchParams.get('topN') || String(DEFAULT_TOP_N), 10);
+    if (isNaN(topN) || topN < 1) {
+      return NextResponse.json({ error: 'topN must be a positive integer' }, { status: 400 });
+    }
+    
+    // Product / location / discount code cross-filters
+    const dimensionFilter = parseDimensionFilter(url.searchParams);
+    filter = { ...filter, ...dimensionFilter };
+    
+    // Trends fill every period in the range, so its length is capped up front
+    const currentRange = {
+      from: filter.from || cube.firstDay,
+      to: filter.to || cube.lastDay
+    };
+    let baseline: DayRange | null = null;
+    if (currentRange.from && currentRange.to) {
+      try {
+        validatePeriodCount('The date range', currentRange as DayRange, granularity);
+        baseline = resolveComparisonBaseline(url.searchParams, currentRange as DayRange);
+        if (baseline) validatePeriodCount('The comparison range', baseline, granularity);
+      } catch (error) {
+        return NextResponse.json({
+          error: error instanceof Error ? error.message : 'Invalid date range'
+        }, {
+          status: 400
+        });
+      }
+    }
+    
+    // Generate chart data. Each breakdown ignores its own dimension's filter,
+    // so the selected slice is still shown alongside the ones it was picked from
+    const revenueTrend = generateRevenueTrend(cube, filter, granularity);
+    const metricTrend = generateMetricSeries(cube, filter, granularity);
+    const locationBreakdown = generateBreakdown(cube, 'location', { ...filter, locations: undefined }, topN);
+    const productBreakdown = generateBreakdown(cube, 'product', { ...filter, products: undefined }, topN);
+    const monthlyComparison = generateMonthlyComparison(cube, filter);
+    
+    // Optional period-over-period comparison of the selected range
+    const comparison: PeriodComparison | null = baseline
+      ? comparePeriods(cube, currentRange as DayRange, baseline, { granularity, filter })
+      : null;
     
     return NextResponse.json({
       revenueTrend,
-      revenueByLocation,
-      revenueByProduct,
-      monthlyComparison
+      metricTrend,
+      revenueByLocation: locationBreakdown.slices,
+      revenueByProduct: productBreakdown.slices,
+      locationRanking: locationBreakdown.ranked,
+      productRanking: productBreakdown.ranked,
+      topN,
+      monthlyComparison: monthlyComparison.rows,
+      monthlyComparisonYears: monthlyComparison.years,
+      comparison,
+      granularity,
+      range: {
+        from: filter.from || cube.firstDay,
+        to: filter.to || cube.lastDay,
+        dataFrom: cube.firstDay,
+        dataTo: cube.lastDay
+      },
+      filters: {
+        products: dimensionFilter.products || [],
+        locations: dimensionFilter.locations || [],
+        discountCodes: (dimensionFilter.discountCodes || []).map(code => code || NO_DISCOUNT_CODE)
+      },
+      availableFilters: {
+        products: cube.products,
+        locations: cube.locations,
+        discountCodes: cube.discountCodes
+      },
+      dataQuality: {
+        totalRows: report.totalRows,
+        validRows: report.validRows,
+        coverage: report.coverage
+      },
+      meta
     });
 
   } catch (error: unknown) {
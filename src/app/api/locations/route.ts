@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube, queryCube, measureByPair } from '@/lib/cube';
+import type { SalesCube, CubeFilter } from '@/lib/cube';
+import { parseDateFilter } from '@/lib/timeRange';
+import type { LocationSummary } from '@/types/data';
+import { toSlug } from '@/utils/slug';
+
+export const dynamic = 'force-dynamic';
+
+function summarizeLocations(cube: SalesCube, filter: CubeFilter): LocationSummary[] {
+  const productRevenue = measureByPair(cube, 'location', 'product', 'revenue', filter);
+  const dailyRevenue = measureByPair(cube, 'location', 'day', 'revenue', filter);
+
+  return queryCube(cube, ['location'], filter)
+    .map(row => {
+      const name = row.key.location!;
+      const days = Array.from(dailyRevenue.get(name)?.keys() || []).sort();
+      const [topProduct] = Array.from(productRevenue.get(name)?.entries() || [])
+        .sort((a, b) => b[1] - a[1]);
+
+      return {
+        id: toSlug(name),
+        name,
+        revenue: row.revenue,
+        orders: row.orders,
+        units: row.units,
+        customers: row.customers,
+        averageOrderValue: row.orders > 0 ? row.revenue / row.orders : 0,
+        firstSale: days[0] || null,
+        lastSale: days[days.length - 1] || null,
+        topProduct: topProduct ? { name: topProduct[0], revenue: topProduct[1] } : null
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue); // Highest revenue first
+}
+
+// Store list with summary stats; accepts ?timeRange= or ?from=&to=
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+
+    let filter: CubeFilter;
+    try {
+      filter = parseDateFilter(url.searchParams, cube.lastDay);
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Invalid date range'
+      }, {
+        status: 400
+      });
+    }
+
+    const locations = summarizeLocations(cube, filter);
+    console.log(`Locations API returning ${locations.length} locations`);
+
+    return NextResponse.json({
+      locations,
+      range: { from: filter.from || cube.firstDay, to: filter.to || cube.lastDay },
+      meta
+    });
+  } catch (error) {
+    console.error('Locations API Error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to fetch locations'
+    }, {
+      status: 500
+    });
+  }
+}
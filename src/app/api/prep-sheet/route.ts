@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube } from '@/lib/cube';
+import { parseDimensionFilter } from '@/lib/filters';
+import { validateDayKey } from '@/lib/timeRange';
+import { addDays, daysBetween, parseDayKey, toDayKey } from '@/lib/periods';
+import { buildPrepSheet, DEFAULT_SERVICE_LEVEL, MAX_PREP_DAYS_AHEAD, SERVICE_LEVEL_Z } from '@/lib/demand';
+
+export const dynamic = 'force-dynamic';
+
+// Units to prep per product and store for one day. Query params: date
+// (YYYY-MM-DD, default the day after the data ends), serviceLevel (% of days
+// the prep should cover, default 95) plus product/location filters
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+    if (!cube.lastDay) {
+      return NextResponse.json({ error: 'No sales data available' }, { status: 404 });
+    }
+
+    const date = url.searchParams.get('date') || toDayKey(addDays(parseDayKey(cube.lastDay), 1));
+    try {
+      validateDayKey('target', date);
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Invalid date'
+      }, {
+        status: 400
+      });
+    }
+
+    const daysAhead = daysBetween(cube.lastDay, date);
+    if (daysAhead < 1 || daysAhead > MAX_PREP_DAYS_AHEAD) {
+      return NextResponse.json({
+        error: `date must be 1 to ${MAX_PREP_DAYS_AHEAD} days after the last day of data (${cube.lastDay})`
+      }, {
+        status: 400
+      });
+    }
+
+    const serviceLevel = Number(url.searchParams.get('serviceLevel') || DEFAULT_SERVICE_LEVEL);
+    if (!(serviceLevel in SERVICE_LEVEL_Z)) {
+      return NextResponse.json({
+        error: `serviceLevel must be one of ${Object.keys(SERVICE_LEVEL_Z).join(', ')}`
+      }, {
+        status: 400
+      });
+    }
+
+    // Prep covers all sales, so only the product and location filters apply
+    const { products, locations } = parseDimensionFilter(url.searchParams);
+    const sheet = buildPrepSheet(cube, date, serviceLevel, {
+      ...(products && { products }),
+      ...(locations && { locations })
+    });
+    if (!sheet) {
+      return NextResponse.json({ error: 'No sales data available' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...sheet, meta });
+  } catch (error) {
+    console.error('Error in prep sheet API:', error);
+    return NextResponse.json(
+      { error: 'Failed to build prep sheet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube } from '@/lib/cube';
+import { analyzePricePerformance } from '@/app/api/chat/analyzers';
+import { BASELINE_WEEKS, simulatePrice } from '@/lib/priceSimulation';
+
+export const dynamic = 'force-dynamic';
+
+const isPrice = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+
+// What-if price projection for one product.
+// Body: { product, price?, storePrices?: { [location]: price } }; stores
+// without a candidate price keep their current one
+export async function POST(req: Request) {
+  try {
+    const { product, price, storePrices } = await req.json();
+
+    if (!product || typeof product !== 'string') {
+      return NextResponse.json(
+        { error: 'product is required' },
+        { status: 400 }
+      );
+    }
+    if (price !== undefined && price !== null && !isPrice(price)) {
+      return NextResponse.json(
+        { error: 'price must be a positive number' },
+        { status: 400 }
+      );
+    }
+    if (storePrices !== undefined && (typeof storePrices !== 'object' || storePrices === null ||
+        !Object.values(storePrices).every(isPrice))) {
+      return NextResponse.json(
+        { error: 'storePrices must map locations to positive numbers' },
+        { status: 400 }
+      );
+    }
+
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+    if (!cube.products.includes(product)) {
+      return NextResponse.json(
+        { error: `No sales found for "${product}"` },
+        { status: 404 }
+      );
+    }
+    const unknownStores = Object.keys(storePrices || {}).filter(location => !cube.locations.includes(location));
+    if (unknownStores.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown location(s): ${unknownStores.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const analysis = await analyzePricePerformance(data, product);
+    if ('error' in analysis) {
+      return NextResponse.json({ error: analysis.error }, { status: 500 });
+    }
+
+    const simulation = simulatePrice(data, product, {
+      elasticity: analysis.priceElasticity,
+      range: analysis.elasticityRange,
+      observedRange: analysis.observedPriceRange
+    }, {
+      ...(isPrice(price) && { price }),
+      ...(storePrices && { storePrices })
+    });
+    if (!simulation) {
+      return NextResponse.json(
+        { error: `No sales of "${product}" in the last ${BASELINE_WEEKS} weeks to project from` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ...simulation, meta });
+  } catch (error) {
+    console.error('Error in price simulation API:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate price' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,69 @@
 import { NextResponse } from 'next/server';
 import { fetchSpreadsheetData } from '@/lib/data';
+import { buildProductCatalog, queryProductCatalog } from '@/lib/products';
+import type { ProductQuery, ProductSortField } from '@/lib/products';
+import { getSalesCube } from '@/lib/cube';
+import type { CubeFilter } from '@/lib/cube';
+import { parseDateFilter } from '@/lib/timeRange';
 
-export async function GET() {
+export const dynamic = 'force-dynamic';
+
+const SORT_FIELDS: ProductSortField[] = ['name', 'revenue', 'units', 'orders', 'lastSold', 'currentPrice'];
+const MAX_PAGE_SIZE = 500;
+
+// Product catalog with per-product metrics.
+// Query params: search, status (active|inactive), sort, order (asc|desc),
+// page, pageSize, and timeRange or from/to
+export async function GET(request: Request) {
   try {
-    // Get data from spreadsheet
-    const data = await fetchSpreadsheetData();
-    
-    // Format data consistently - handle different possible shapes
-    let rows = [];
-    if (Array.isArray(data)) {
-      rows = data.slice(1); // Skip header
-    } else if (data.data && Array.isArray(data.data)) {
-      rows = data.data.slice(1); // Skip header
+    const url = new URL(request.url);
+    const params = url.searchParams;
+
+    const sort = (params.get('sort') || 'revenue') as ProductSortField;
+    const order = params.get('order') as ProductQuery['order'] | null;
+    const status = params.get('status') as ProductQuery['status'] | null;
+    const page = parseInt(params.get('page') || '1', 10);
+    const pageSize = parseInt(params.get('pageSize') || '50', 10);
+
+    if (!SORT_FIELDS.includes(sort)) {
+      return NextResponse.json({ error: `sort must be one of ${SORT_FIELDS.join(', ')}` }, { status: 400 });
+    }
+    if (order && order !== 'asc' && order !== 'desc') {
+      return NextResponse.json({ error: 'order must be "asc" or "desc"' }, { status: 400 });
+    }
+    if (status && status !== 'active' && status !== 'inactive') {
+      return NextResponse.json({ error: 'status must be "active" or "inactive"' }, { status: 400 });
+    }
+    if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1) {
+      return NextResponse.json({ error: 'page and pageSize must be positive integers' }, { status: 400 });
     }
-    
-    // Extract unique product names from column E (index 4)
-    const products = Array.from(new Set(
-      rows
-        .filter((row: any) => row && row.length > 4 && row[4]) // Ensure row and product name exists
-        .map((row: any) => row[4]) // Get product name
-    ));
-    
-    return NextResponse.json(products);
+
+    const { data, meta } = await fetchSpreadsheetData();
+
+    let filter: CubeFilter;
+    try {
+      filter = parseDateFilter(params, getSalesCube(data).lastDay);
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Invalid date range'
+      }, {
+        status: 400
+      });
+    }
+
+    const catalog = buildProductCatalog(data, filter);
+    const result = queryProductCatalog(catalog, {
+      search: params.get('search') || undefined,
+      status: status || undefined,
+      sort,
+      order: order || undefined,
+      page,
+      pageSize: Math.min(pageSize, MAX_PAGE_SIZE)
+    });
+
+    console.log(`Products API returning ${result.products.length} of ${result.total} products`);
+
+    return NextResponse.json({ ...result, meta });
   } catch (error) {
     console.error('Error fetching products:', error);
     return NextResponse.json(
@@ -29,4 +71,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
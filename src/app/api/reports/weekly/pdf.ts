@@ -0,0 +1,106 @@
+// Minimal PDF writer for the text-and-table reports. Uses the standard
+// Helvetica/Courier fonts (no embedding), wraps long lines and paginates, so
+// the report can be rendered server-side without a headless browser.
+
+export interface PdfLine {
+  text: string;
+  size?: number;      // font size in points, default 10
+  bold?: boolean;
+  mono?: boolean;     // Courier, for aligned table columns
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 612;  // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+
+// Only 7-bit ASCII survives the standard font encoding untouched
+function toAscii(text: string): string {
+  return text
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/→/g, '->')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+// Approximate wrap using average glyph widths (Courier is exactly 0.6em)
+function wrap(text: string, size: number, mono: boolean): string[] {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * (mono ? 0.6 : 0.5)));
+  if (mono || text.length <= maxChars) return [text.slice(0, mono ? maxChars : undefined)];
+
+  const lines: string[] = [];
+  let current = '';
+  text.split(' ').forEach(word => {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+export function createTextPdf(lines: PdfLine[], info: { title: string; subject?: string }): Uint8Array {
+  // Lay the lines out into per-page content streams
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach(line => {
+    const size = line.size || 10;
+    const font = line.mono ? 'F3' : line.bold ? 'F2' : 'F1';
+    const leading = size * 1.4;
+    y -= line.spaceBefore || 0;
+
+    wrap(toAscii(line.text), size, !!line.mono).forEach(text => {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      pages[pages.length - 1].push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${escapeText(text)}) Tj ET`);
+    });
+  });
+
+  // Objects 1-6 are fixed; each page then adds a page object and its stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${7 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapeText(toAscii(info.title))})${info.subject ? ` /Subject (${escapeText(toAscii(info.subject))})` : ''} /Producer (Sales Dashboard) >>`
+  ];
+  pages.forEach((commands, i) => {
+    const stream = commands.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${8 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything is ASCII, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = output.length;
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
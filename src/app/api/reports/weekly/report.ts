@@ -0,0 +1,230 @@
+import type { DatasetMeta } from '@/types/data';
+import { getSalesCube, queryCube, cubeTotals } from '@/lib/cube';
+import type { CubeMeasures, CubeRow } from '@/lib/cube';
+import { generateMetricSeries } from '@/lib/metrics';
+import type { MetricPoint } from '@/lib/metrics';
+import { comparePeriods, previousPeriodRange } from '@/lib/comparison';
+import type { DayRange, PeriodComparison } from '@/lib/comparison';
+import { generateRecommendations, RECOMMENDATION_ACTION_LABELS } from '@/lib/recommendations';
+import type { Recommendation } from '@/lib/recommendations';
+import { effectiveState, getRecommendationId, loadRecommendationStates } from '@/lib/recommendationState';
+import { analyzePricePerformance } from '@/app/api/chat/analyzers';
+import { calculateStorePerformance } from '@/app/api/chat/handlers';
+import type { StorePerformance } from '@/app/api/chat/handlers';
+import type { PdfLine } from './pdf';
+
+// Weekly executive summary: composes the graphs series, recommendations,
+// price analysis and store table into one document (HTML or PDF).
+
+const TOP_ITEMS = 5;
+
+export interface PriceHighlight {
+  product: string;
+  currentPrice: number;
+  recommendedPrice: number;
+  elasticity: number;
+  rationale: string;
+}
+
+export interface WeeklyReport {
+  range: DayRange;
+  generatedAt: string;
+  meta: DatasetMeta;
+  totals: CubeMeasures;
+  comparison: PeriodComparison;
+  dailyTrend: MetricPoint[];
+  topProducts: CubeRow[];
+  recommendations: Recommendation[];
+  priceHighlights: PriceHighlight[];
+  stores: StorePerformance[];
+  companyAvg: { aov: number; itemsPerOrder: number };
+}
+
+export async function buildWeeklyReport(data: unknown[], meta: DatasetMeta, range: DayRange): Promise<WeeklyReport> {
+  console.log(`Building weekly report for ${range.from} to ${range.to}`);
+  const cube = getSalesCube(data);
+  const filter = { from: range.from, to: range.to };
+
+  const topProducts = queryCube(cube, ['product'], filter)
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, TOP_ITEMS);
+
+  // Price analysis covers each product's full history; report the week's
+  // best sellers where it suggests moving away from the current price
+  const priceHighlights: PriceHighlight[] = [];
+  for (const row of topProducts) {
+    const product = row.key.product!;
+    const analysis = await analyzePricePerformance(data, product);
+    if ('error' in analysis || !analysis.currentPrice) continue;
+    if (Math.abs(analysis.recommendedPrice - analysis.currentPrice) < 0.01) continue;
+    priceHighlights.push({
+      product,
+      currentPrice: analysis.currentPrice,
+      recommendedPrice: analysis.recommendedPrice,
+      elasticity: analysis.priceElasticity,
+      rationale: analysis.recommendedPriceRationale
+    });
+  }
+
+  const { stores, companyAvg } = calculateStorePerformance(data, filter);
+
+  // Only advice still being worked on; snoozed, resolved and dismissed items
+  // stay out of the report
+  const states = await loadRecommendationStates();
+  const recommendations = (await generateRecommendations(data)).filter(rec => {
+    const { status } = effectiveState(states[getRecommendationId(rec)]);
+    return status === 'open' || status === 'in_progress';
+  });
+
+  return {
+    range,
+    generatedAt: new Date().toISOString(),
+    meta,
+    totals: cubeTotals(cube, filter),
+    comparison: comparePeriods(cube, range, previousPeriodRange(range), { granularity: 'day' }),
+    dailyTrend: generateMetricSeries(cube, filter, 'day'),
+    topProducts,
+    recommendations: recommendations.slice(0, TOP_ITEMS),
+    priceHighlights,
+    stores,
+    companyAvg
+  };
+}
+
+const money = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const percent = (value: number | null) => value === null ? 'n/a' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function describeRecommendation(rec: Recommendation): string {
+  return `${RECOMMENDATION_ACTION_LABELS[rec.action]}: ${rec.target} (${rec.type})${rec.impact ? ` - ${rec.impact}` : ''}`;
+}
+
+// Inline SVG bar chart of daily revenue, so the HTML needs no scripts
+function renderTrendSvg(points: MetricPoint[]): string {
+  const width = 640;
+  const height = 180;
+  const max = Math.max(1, ...points.map(p => p.revenue));
+  const slot = width / Math.max(points.length, 1);
+  const bars = points.map((point, i) => {
+    const barHeight = (point.revenue / max) * (height - 40);
+    const x = i * slot + slot * 0.15;
+    return `<rect x="${x.toFixed(1)}" y="${(height - 20 - barHeight).toFixed(1)}" width="${(slot * 0.7).toFixed(1)}" height="${barHeight.toFixed(1)}" fill="#0088FE"><title>${escapeHtml(point.date)}: ${money(point.revenue)}</title></rect>` +
+      `<text x="${(i * slot + slot / 2).toFixed(1)}" y="${height - 5}" font-size="10" text-anchor="middle" fill="#6b7280">${escapeHtml(point.period.slice(5))}</text>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="Daily revenue">${bars.join('')}</svg>`;
+}
+
+function renderTable(headers: string[], rows: string[][]): string {
+  if (rows.length === 0) return '<p class="muted">No data for this period.</p>';
+  return `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+    `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+export function renderReportHtml(report: WeeklyReport): string {
+  const { range, totals, comparison } = report;
+  const aov = totals.orders > 0 ? totals.revenue / totals.orders : 0;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Weekly Sales Report ${range.from} to ${range.to}</title>
+<meta name="report-range" content="${range.from}/${range.to}">
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111827; max-width: 760px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .kpis { display: flex; gap: 16px; flex-wrap: wrap; }
+  .kpi { background: #f9fafb; border-radius: 8px; padding: 12px 16px; min-width: 140px; }
+  .kpi strong { display: block; font-size: 20px; }
+  .up { color: #059669; } .down { color: #dc2626; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f3f4f6; }
+  th { background: #f9fafb; }
+  li { margin-bottom: 6px; }
+</style>
+</head>
+<body>
+<h1>Weekly Sales Report</h1>
+<p class="muted">${range.from} to ${range.to} · generated ${new Date(report.generatedAt).toLocaleString('en-US')} · data as of ${new Date(report.meta.asOf).toLocaleString('en-US')}</p>
+
+<div class="kpis">
+  <div class="kpi">Revenue<strong>${money(totals.revenue)}</strong><span class="${comparison.delta < 0 ? 'down' : 'up'}">${percent(comparison.percentChange)} vs previous period</span></div>
+  <div class="kpi">Orders<strong>${totals.orders.toLocaleString()}</strong></div>
+  <div class="kpi">Avg order value<strong>${money(aov)}</strong></div>
+  <div class="kpi">Customers<strong>${totals.customers.toLocaleString()}</strong></div>
+</div>
+
+<h2>Daily revenue</h2>
+${renderTrendSvg(report.dailyTrend)}
+<p class="muted">Previous period (${comparison.previous.from} to ${comparison.previous.to}): ${money(comparison.previous.total)}</p>
+
+<h2>Top products</h2>
+${renderTable(['Product', 'Revenue', 'Units', 'Orders'], report.topProducts.map(row => [row.key.product!, money(row.revenue), String(row.units), String(row.orders)]))}
+
+<h2>Store performance</h2>
+${renderTable(['Store', 'Revenue', 'Orders', 'Avg order', 'Items/order'], report.stores.map(store => [store.location, money(store.totalRevenue), String(store.transactionCount), money(store.aov), store.itemsPerOrder.toFixed(1)]))}
+<p class="muted">Company average order value ${money(report.companyAvg.aov)}, ${report.companyAvg.itemsPerOrder.toFixed(1)} items per order.</p>
+
+<h2>Recommendations</h2>
+${report.recommendations.length > 0
+    ? `<ol>${report.recommendations.map(rec => `<li>${escapeHtml(describeRecommendation(rec))}</li>`).join('')}</ol>`
+    : '<p class="muted">No recommendations this week.</p>'}
+
+<h2>Pricing highlights</h2>
+${report.priceHighlights.length > 0
+    ? `<ul>${report.priceHighlights.map(h => `<li><strong>${escapeHtml(h.product)}</strong>: ${money(h.currentPrice)} → ${money(h.recommendedPrice)} (elasticity ${h.elasticity.toFixed(2)}). ${escapeHtml(h.rationale)}</li>`).join('')}</ul>`
+    : '<p class="muted">Current prices look right for this week\'s best sellers.</p>'}
+</body>
+</html>
+`;
+}
+
+// Same content as the HTML, flattened to lines for the PDF writer
+export function reportToPdfLines(report: WeeklyReport): PdfLine[] {
+  const { range, totals, comparison } = report;
+  const aov = totals.orders > 0 ? totals.revenue / totals.orders : 0;
+  const heading = (text: string): PdfLine => ({ text, size: 14, bold: true, spaceBefore: 12 });
+  const row = (cells: string[], widths: number[]): PdfLine => ({
+    text: cells.map((cell, i) => cell.slice(0, widths[i] - 1).padEnd(widths[i])).join(''),
+    mono: true,
+    size: 9
+  });
+
+  const lines: PdfLine[] = [
+    { text: 'Weekly Sales Report', size: 20, bold: true },
+    { text: `${range.from} to ${range.to} - data as of ${new Date(report.meta.asOf).toLocaleString('en-US')}`, size: 9 },
+    heading('Summary'),
+    { text: `Revenue ${money(totals.revenue)} (${percent(comparison.percentChange)} vs ${money(comparison.previous.total)} in ${comparison.previous.from} to ${comparison.previous.to})` },
+    { text: `Orders ${totals.orders} - Avg order value ${money(aov)} - Customers ${totals.customers}` },
+    heading('Daily revenue'),
+    ...report.dailyTrend.map(point => row([point.date, money(point.revenue), `${point.orders} orders`], [22, 14, 12])),
+    heading('Top products'),
+    row(['Product', 'Revenue', 'Units', 'Orders'], [34, 14, 8, 8]),
+    ...report.topProducts.map(p => row([p.key.product!, money(p.revenue), String(p.units), String(p.orders)], [34, 14, 8, 8])),
+    heading('Store performance'),
+    row(['Store', 'Revenue', 'Orders', 'Avg order', 'Items/order'], [24, 14, 8, 12, 12]),
+    ...report.stores.map(s => row([s.location, money(s.totalRevenue), String(s.transactionCount), money(s.aov), s.itemsPerOrder.toFixed(1)], [24, 14, 8, 12, 12])),
+    heading('Recommendations'),
+    ...(report.recommendations.length > 0
+      ? report.recommendations.map((rec, i) => ({ text: `${i + 1}. ${describeRecommendation(rec)}` }))
+      : [{ text: 'No recommendations this week.' }]),
+    heading('Pricing highlights'),
+    ...(report.priceHighlights.length > 0
+      ? report.priceHighlights.map(h => ({
+          text: `${h.product}: ${money(h.currentPrice)} -> ${money(h.recommendedPrice)} (elasticity ${h.elasticity.toFixed(2)}). ${h.rationale}`,
+          spaceBefore: 4
+        }))
+      : [{ text: "Current prices look right for this week's best sellers." }])
+  ];
+  return lines;
+}
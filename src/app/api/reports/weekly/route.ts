@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube, daysBefore } from '@/lib/cube';
+import { validateDayKey } from '@/lib/timeRange';
+import { addDays, parseDayKey, toDayKey } from '@/lib/periods';
+import type { DayRange } from '@/lib/comparison';
+import { buildWeeklyReport, renderReportHtml, reportToPdfLines } from './report';
+import { createTextPdf } from './pdf';
+
+export const dynamic = 'force-dynamic';
+
+const REPORT_DAYS = 7;
+
+// Missing ends default to a 7-day window; with neither, the last 7 days of data
+function resolveReportRange(searchParams: URLSearchParams, anchorDay: string): DayRange {
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  if (from) validateDayKey('from', from);
+  if (to) validateDayKey('to', to);
+
+  const range = {
+    from: from || daysBefore(to || anchorDay, REPORT_DAYS - 1),
+    to: to || (from ? toDayKey(addDays(parseDayKey(from), REPORT_DAYS - 1)) : anchorDay)
+  };
+  if (range.from > range.to) {
+    throw new Error(`from (${range.from}) must not be after to (${range.to})`);
+  }
+  return range;
+}
+
+// Weekly executive report for cron jobs and email: HTML by default,
+// ?format=pdf for a PDF attachment. Query params: from, to (YYYY-MM-DD)
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format') || 'html';
+
+    if (format !== 'html' && format !== 'pdf') {
+      return NextResponse.json({ error: 'format must be "html" or "pdf"' }, { status: 400 });
+    }
+
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+
+    if (!cube.lastDay) {
+      return NextResponse.json({ error: 'No sales data available' }, { status: 404 });
+    }
+
+    let range: DayRange;
+    try {
+      range = resolveReportRange(url.searchParams, cube.lastDay);
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Invalid date range'
+      }, {
+        status: 400
+      });
+    }
+
+    const report = await buildWeeklyReport(data, meta, range);
+    const filename = `weekly-report_${range.from}_to_${range.to}`;
+
+    if (format === 'pdf') {
+      const pdf = createTextPdf(reportToPdfLines(report), {
+        title: 'Weekly Sales Report',
+        subject: `${range.from} to ${range.to}`
+      });
+      return new Response(pdf, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+
+    return new Response(renderReportHtml(report), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}.html"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Weekly report API Error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to generate report'
+    }, {
+      status: 500
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube } from '@/lib/cube';
+import { forecastRevenueBreakdown } from '@/lib/forecast';
+import { loadForecastSnapshots, saveForecastSnapshot } from '@/lib/forecastSnapshots';
+import { evaluateForecasts } from '@/lib/forecastAccuracy';
+
+export const dynamic = 'force-dynamic';
+
+// Horizon of the snapshot taken when the current data has none yet
+const SNAPSHOT_HORIZON_DAYS = 90;
+
+// Saved forecasts scored against the actuals that have arrived since, by
+// horizon, product and store, plus the forecast band for the trend overlay
+export async function GET() {
+  try {
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+
+    if (!cube.lastDay) {
+      return NextResponse.json({ error: 'No sales data available' }, { status: 404 });
+    }
+
+    // Make sure today's data has a forecast on file to be scored later; if it
+    // can't be saved, the snapshots already on file are still scored
+    const snapshots = await loadForecastSnapshots();
+    if (!snapshots.some(snapshot => snapshot.id === cube.lastDay)) {
+      const forecast = forecastRevenueBreakdown(cube, SNAPSHOT_HORIZON_DAYS);
+      if (forecast) {
+        try {
+          const snapshot = await saveForecastSnapshot(forecast, meta, cube.lastDay, SNAPSHOT_HORIZON_DAYS);
+          snapshots.push(snapshot);
+          snapshots.sort((a, b) => a.lastDay.localeCompare(b.lastDay));
+        } catch (error) {
+          console.error('Failed to save forecast snapshot:', error);
+        }
+      }
+    }
+
+    return NextResponse.json({ ...evaluateForecasts(snapshots, cube), meta });
+  } catch (error) {
+    console.error('Forecast accuracy API Error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to evaluate forecasts'
+    }, {
+      status: 500
+    });
+  }
+}
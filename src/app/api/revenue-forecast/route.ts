@@ -1,90 +1,146 @@
 import { NextResponse } from 'next/server';
-import { fetchSpreadsheetData } from '@/lib/data'; // Assuming this is your data fetching function
+import { fetchSpreadsheetData } from '@/lib/data';
+import { getSalesCube } from '@/lib/cube';
+import { parseDimensionFilter } from '@/lib/filters';
+import { forecastRevenueBreakdown } from '@/lib/forecast';
+import type { SeriesForecast } from '@/lib/forecast';
+import { saveForecastSnapshot } from '@/lib/forecastSnapshots';
+import { addDays, daysBetween, parseDayKey, toDayKey } from '@/lib/periods';
 
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_HORIZON_DAYS = 30;
+const MAX_HORIZON_DAYS = 365;
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june',
+                     'july', 'august', 'september', 'october', 'november', 'december'];
+
+const notEnoughHistory = () => NextResponse.json({
+  error: 'Not enough sales history to forecast (at least four weeks are needed)'
+}, {
+  status: 404
+});
+
+// Daily forecast for the next N days after the data ends. Query params:
+// days (1-365, default 30) plus product/location/discountCode filters
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const daysParam = url.searchParams.get('days');
+    const horizonDays = daysParam ? Number(daysParam) : DEFAULT_HORIZON_DAYS;
+
+    if (!Number.isInteger(horizonDays) || horizonDays < 1 || horizonDays > MAX_HORIZON_DAYS) {
+      return NextResponse.json({
+        error: `days must be a whole number from 1 to ${MAX_HORIZON_DAYS}`
+      }, {
+        status: 400
+      });
+    }
+
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+    const filter = parseDimensionFilter(url.searchParams);
+    const forecast = cube.lastDay ? forecastRevenueBreakdown(cube, horizonDays, filter) : null;
+    if (!forecast) return notEnoughHistory();
+
+    // Unfiltered forecasts are kept so /api/revenue-forecast/accuracy can score
+    // them; failing to keep one shouldn't fail the forecast itself
+    if (Object.keys(filter).length === 0) {
+      try {
+        await saveForecastSnapshot(forecast, meta, cube.lastDay!, horizonDays);
+      } catch (error) {
+        console.error('Failed to save forecast snapshot:', error);
+      }
+    }
+
+    const start = addDays(parseDayKey(cube.lastDay!), 1);
+    return NextResponse.json({
+      horizon: { from: toDayKey(start), to: toDayKey(addDays(start, horizonDays - 1)), days: horizonDays },
+      ...forecast,
+      meta
+    });
+  } catch (error) {
+    console.error('Error in revenue forecast API:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate forecast' },
+      { status: 500 }
+    );
+  }
+}
+
+// Forecast for one future month. Body: { month: name or 1-12, year }
 export async function POST(req: Request) {
   try {
     const { month, year } = await req.json();
-    
+
     // Validate input
     if (!month || !year) {
       return NextResponse.json(
-        { error: "Month and year are required" }, 
+        { error: "Month and year are required" },
         { status: 400 }
       );
     }
-    
+
+    const monthIndex = typeof month === 'number' ? month - 1 : MONTH_NAMES.indexOf(String(month).toLowerCase());
+    if (monthIndex < 0 || monthIndex > 11 || !Number.isInteger(Number(year))) {
+      return NextResponse.json(
+        { error: 'month must be a month name or 1-12 and year a number' },
+        { status: 400 }
+      );
+    }
+
     // Fetch data
-    const { data } = await fetchSpreadsheetData();
-    
+    const { data, meta } = await fetchSpreadsheetData();
+    const cube = getSalesCube(data);
+    if (!cube.lastDay) return notEnoughHistory();
+
+    const monthKey = `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+    const monthEnd = toDayKey(new Date(Number(year), monthIndex + 1, 0));
+    const horizonDays = daysBetween(cube.lastDay, monthEnd);
+
+    if (horizonDays < 1) {
+      return NextResponse.json(
+        { error: `${monthKey} is already covered by the sales data; use /api/graphs for actuals` },
+        { status: 400 }
+      );
+    }
+    if (horizonDays > MAX_HORIZON_DAYS) {
+      return NextResponse.json(
+        { error: `Forecasts reach at most ${MAX_HORIZON_DAYS} days past the data (${cube.lastDay})` },
+        { status: 400 }
+      );
+    }
+
     // Calculate forecast
-    const forecast = await generateDirectForecast(data, month, year);
-    
-    return NextResponse.json({ forecast });
+    const forecast = forecastRevenueBreakdown(cube, horizonDays, {});
+    if (!forecast) return notEnoughHistory();
+    try {
+      await saveForecastSnapshot(forecast, meta, cube.lastDay, horizonDays);
+    } catch (error) {
+      console.error('Failed to save forecast snapshot:', error);
+    }
+
+    // Keep only the requested month
+    const forMonth = <T extends SeriesForecast>(series: T): T => ({
+      ...series,
+      daily: series.daily.filter(point => point.period.startsWith(monthKey)),
+      monthly: series.monthly.filter(point => point.period === monthKey)
+    });
+
+    return NextResponse.json({
+      month: monthKey,
+      forecast: {
+        total: forMonth(forecast.total),
+        products: forecast.products.map(forMonth),
+        locations: forecast.locations.map(forMonth)
+      },
+      meta
+    });
   } catch (error) {
     console.error("Error in revenue forecast API:", error);
     return NextResponse.json(
-      { error: "Failed to generate forecast" }, 
+      { error: "Failed to generate forecast" },
       { status: 500 }
     );
   }
 }
-
-async function generateDirectForecast(data: any[], month: string, year: number): Promise<string> {
-  // Implementation similar to generateRevenueByTimeReport but with direct parameters
-  // This avoids the question parsing step that might be failing
-  
-  // (Simplified implementation)
-  // Get overall top products
-  const productRevenue: Record<string, number> = {};
-  
-  // Find previous year data if available
-  const previousYear = year - 1;
-  const previousYearData: Record<string, number> = {};
-  
-  // Process data to find top products overall and previous year's same month
-  data.forEach(row => {
-    if (row[0] === 'Order_Date') return;
-    
-    try {
-      const date = new Date(row[0]);
-      const monthName = date.toLocaleString('default', { month: 'long' }).toLowerCase();
-      const productName = row[4]; // Product name column
-      const lineTotal = parseFloat(row[8] || '0'); // Revenue column
-      
-      // Add to overall totals
-      productRevenue[productName] = (productRevenue[productName] || 0) + lineTotal;
-      
-      // Check if it's from previous year same month
-      if (monthName === month.toLowerCase() && date.getFullYear() === previousYear) {
-        previousYearData[productName] = (previousYearData[productName] || 0) + lineTotal;
-      }
-    } catch (e) {
-      console.error("Error processing data for forecast:", e);
-    }
-  });
-  
-  // Sort results
-  const topOverall = Object.entries(productRevenue)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 5);
-    
-  const topPreviousYear = Object.entries(previousYearData)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 5);
-  
-  // Use previous year if available, otherwise overall
-  const forecastProducts = topPreviousYear.length > 0 ? topPreviousYear : topOverall;
-  
-  // Format response
-  return `Based on the sales data for ${month.charAt(0).toUpperCase() + month.slice(1)} ${year} (forecast), here are the projected top products by revenue:
-
-${forecastProducts.map((item, index) => 
-  `${index + 1}. ${item[0]}: $${item[1].toFixed(2)}${topPreviousYear.length > 0 ? ` (based on ${previousYear} data)` : ``}`
-).join('\n')}
-
-Note: Since ${month} ${year} is in the future, this represents a forecast based on ${topPreviousYear.length > 0 ? 
-  `data from ${month} ${previousYear}` : 
-  'overall historical performance'}.
-
-Based on historical patterns, ${forecastProducts[0][0]} is projected to be the top performing product for this period.`;
-} 
\ No newline at end of file
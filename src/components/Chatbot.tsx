@@ -7,6 +7,7 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { stripMarkdownFormatting } from '../utils/markdownProcessor';
 import { analyzeQuery } from '../utils/queryAnalyzer';
+import type { LocationSummary, ProductSummary } from '@/types/data';
 
 // Fix the message type error
 interface Message {
@@ -20,18 +21,11 @@ type ChatbotProps = {
 };
 
 // Add types for products and locations
-type Product = {
-  id: string;
-  name: string;
-  category: string;
-  revenue: number;
-};
+// Shape returned by /api/products
+type Product = ProductSummary;
 
-type Location = {
-  id: string;
-  name: string;
-  region: string;
-};
+// Shape returned by /api/locations
+type Location = LocationSummary;
 
 // First, add a type for the product data items
 interface ProductRevenue {
@@ -723,7 +717,7 @@ async function handleGeneralQuestion(question: string, previousMessages: Message
       rawData.forEach(row => {
         const product = getFieldValue(row, ['Product_Name', 'product_name', 'Product', 'product']);
         const location = getFieldValue(row, ['Store_Location', 'store_location', 'Location', 'location', 'Store', 'store']);
-        const discountCode = getFieldValue(row, ['Discount_Code', 'discount_code', 'Discount', 'discount']);
+        const discountCode = getFieldValue(row, ['Discount_Code_Used', 'Discount_Code', 'discount_code', 'Discount', 'discount']);
         const quantity = parseInt(getFieldValue(row, ['Quantity', 'quantity']) || '0');
         const revenue = calculateRevenue(row);
         
@@ -1452,6 +1446,9 @@ export function Chatbot({ previousQuestion: _prevQuestion }: ChatbotProps) {
             <li>• 🏆 "Which location had the highest revenue for {products[0]?.name || '[product]'} in December 2024?"</li>
             <li>• 📊 "Show me the top 3 performing products in November 2024"</li>
             <li>• 💡 "What factors are impacting {products[0]?.name || '[product]'} performance and how can we improve it?"</li>
+            {locations[0] && (
+              <li>• 📍 &ldquo;What are the most popular products at {locations[0].name}?&rdquo;</li>
+            )}
           </ul>
         </div>
       </div>
@@ -1789,57 +1786,26 @@ async function analyzeDayOfWeekSales(question: string): Promise<string> {
   try {
     console.log("Analyzing day of week sales patterns");
     
-    // Fetch the raw data
-    const rawData = await fetchRawSheetData();
-    
-    if (!rawData || !Array.isArray(rawData) || rawData.length === 0) {
+    // The heatmap endpoint already aggregates revenue and orders by weekday × hour
+    const heatmapResponse = await fetch('/api/graphs/heatmap');
+    if (!heatmapResponse.ok) {
       return "I don't have access to daily sales data at the moment. Please try again later.";
     }
+    const heatmap = await heatmapResponse.json();
     
-    // Initialize data structures for day of week analysis
-    const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const salesByDay = Array(7).fill(0);
-    const transactionsByDay = Array(7).fill(0);
-    const averageTransactionByDay = Array(7).fill(0);
-    
-    // Process each transaction
-    let totalParsedDates = 0;
-    let failedDateParses = 0;
+    const daysOfWeek: string[] = heatmap.weekdays;
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const salesByDay: number[] = heatmap.revenue.map(sum);
+    const transactionsByDay: number[] = heatmap.orders.map(sum);
     
-    rawData.forEach(row => {
-      // Extract date from the row
-      const dateStr = getFieldValue(row, ['Purchase_Date', 'purchase_date', 'Date', 'date']);
-      if (!dateStr) return;
-      
-      // Parse the date using our enhanced function
-      const date = parseSpreadsheetDate(dateStr);
-      
-      if (!date) {
-        failedDateParses++;
-        return;
-      }
-      
-      totalParsedDates++;
-      
-      const dayOfWeek = date.getDay(); // 0 = Sunday, 6 = Saturday
-      
-      // Calculate transaction revenue
-      const revenue = calculateRevenue(row);
-      if (revenue <= 0) return;
-      
-      // Update the counters
-      salesByDay[dayOfWeek] += revenue;
-      transactionsByDay[dayOfWeek]++;
-    });
-    
-    console.log(`Successfully parsed ${totalParsedDates} dates, failed to parse ${failedDateParses} dates`);
+    if (sum(transactionsByDay) === 0) {
+      return "I don't have access to daily sales data at the moment. Please try again later.";
+    }
     
     // Calculate average transaction value
-    for (let i = 0; i < 7; i++) {
-      if (transactionsByDay[i] > 0) {
-        averageTransactionByDay[i] = salesByDay[i] / transactionsByDay[i];
-      }
-    }
+    const averageTransactionByDay = salesByDay.map((sales, i) =>
+      transactionsByDay[i] > 0 ? sales / transactionsByDay[i] : 0
+    );
     
     // Find the highest sales day
     const maxSalesIndex = salesByDay.indexOf(Math.max(...salesByDay));
@@ -24,7 +24,30 @@ console.log('DashboardWidget module initializing');
 console.log('DashboardWidget module loading');
 console.log('Import check:', { useState, useEffect });
 
+type RecommendationStatus = 'open' | 'in_progress' | 'snoozed' | 'resolved' | 'dismissed';
+
+// Workflow state persisted by /api/recommendations
+type RecommendationWorkflow = {
+  status: RecommendationStatus;
+  snoozedUntil: string | null;
+  dismissReason: string | null;
+  assignee: string | null;
+  notes: { text: string; author: string | null; createdAt: string }[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+};
+
+type RecommendationUpdate = {
+  status?: RecommendationStatus;
+  snoozedUntil?: string;
+  dismissReason?: string;
+  assignee?: string | null;
+  note?: string;
+};
+
 type Recommendation = {
+  id: string;
+  state: RecommendationWorkflow;
   type: 'store' | 'product' | 'discount';
   action: string;
   target: string;
@@ -32,22 +55,61 @@ type Recommendation = {
   value: string;
   benchmark?: string;
   impact?: string;
+  impactEstimate?: number; // monthly $, negative = revenue at risk
+  // Same two months last year, when the data reaches back that far
+  seasonality?: {
+    expectedChange: number;
+    actualChange: number;
+    adjustedChange: number;
+    lastYearStart: string;
+    lastYearEnd: string;
+  };
   novemberData?: number;
   decemberData?: number;
   previousData?: number;
   currentData?: number;
 };
 
-type RecommendationState = 'default' | 'highlighted' | 'dimmed' | 'resolved';
+// Widget tabs for the weekly review, and the statuses each one lists
+const REVIEW_VIEWS = {
+  active: { label: 'Active', statuses: ['open', 'in_progress'] },
+  snoozed: { label: 'Snoozed', statuses: ['snoozed'] },
+  resolved: { label: 'Resolved', statuses: ['resolved'] },
+  dismissed: { label: 'Dismissed', statuses: ['dismissed'] }
+} as const;
+
+type ReviewView = keyof typeof REVIEW_VIEWS;
+
+// Card headings per recommendation action (declines keep their own card)
+const ACTION_LABELS: Record<string, string> = {
+  price_change: 'Adjust price',
+  discontinue_promo: 'Discontinue promo',
+  prune_product: 'Consider pruning',
+  assortment_gap: 'Assortment gap',
+  seasonal_stocking: 'Stock up for season'
+};
+
+const signedPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const formatImpact = (value: number) =>
+  `${value < 0 ? '-' : '+'}$${Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 0 })}/month`;
+
+const STATUS_LABELS: Record<RecommendationStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  snoozed: 'Snoozed',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed'
+};
 
 interface RecommendationDialogProps {
   recommendation: Recommendation;
   onClose: () => void;
 }
 
-async function fetchRecommendations() {
+async function fetchRecommendations(view: ReviewView) {
   try {
-    const res = await fetch('/api/recommendations');
+    const res = await fetch(`/api/recommendations?status=${REVIEW_VIEWS[view].statuses.join(',')}`);
     if (!res.ok) {
       const errorData = await res.json().catch(() => ({ 
         error: 'Server error' 
@@ -62,6 +124,19 @@ async function fetchRecommendations() {
   }
 }
 
+async function updateRecommendation(id: string, update: RecommendationUpdate & { author?: string }) {
+  const res = await fetch('/api/recommendations', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ id, ...update })
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({ error: 'Server error' }));
+    throw new Error(errorData.error || `Server error (${res.status})`);
+  }
+  return (await res.json()).recommendation as Recommendation;
+}
+
 function RecommendationCard({ recommendation }: { recommendation: any }) {
   // Check if we actually have a recommendation
   if (!recommendation || !recommendation.target) return null;
@@ -151,7 +226,10 @@ export function DashboardWidget() {
   }, []);
 
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
-  const [recStates, setRecStates] = useState<Map<string, RecommendationState>>(new Map());
+  const [view, setView] = useState<ReviewView>('active');
+  const [author, setAuthor] = useState('');
+  const [managing, setManaging] = useState<string | null>(null); // id of the card with its panel open
+  const [updateError, setUpdateError] = useState<string | null>(null);
   const [selectedRec, setSelectedRec] = useState<Recommendation | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -176,7 +254,7 @@ export function DashboardWidget() {
     async function loadRecommendations() {
       try {
         setError(null);
-        const recs = await fetchRecommendations();
+        const recs = await fetchRecommendations(view);
         setRecommendations(recs);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load recommendations');
@@ -185,6 +263,11 @@ export function DashboardWidget() {
       }
     }
     loadRecommendations();
+  }, [view]);
+  
+  // Remember who is making changes between visits
+  useEffect(() => {
+    setAuthor(localStorage.getItem('recommendationAuthor') || '');
   }, []);
 
   if (loading) {
@@ -234,35 +317,22 @@ export function DashboardWidget() {
     }
   }
 
-  const initializeRecState = (target: string) => {
-    setRecStates(prev => {
-      const newMap = new Map(prev);
-      newMap.set(target, 'default');
-      return newMap;
-    });
-  };
-
-  const handleResolve = (rec: Recommendation) => {
-    setRecStates(prev => {
-      const newMap = new Map(prev);
-      newMap.set(rec.target, 'resolved');
-      return newMap;
-    });
-    
-    // Refresh recommendations to show the next one
-    setRecommendations(currentRecs => {
-      // Make a shallow copy to trigger re-render
-      return [...currentRecs];
-    });
+  // Saves a state change, then drops the card if it no longer belongs in this view
+  const handleUpdate = async (rec: Recommendation, update: RecommendationUpdate) => {
+    try {
+      setUpdateError(null);
+      const updated = await updateRecommendation(rec.id, { ...update, author: author || undefined });
+      const stillListed = (REVIEW_VIEWS[view].statuses as readonly RecommendationStatus[]).includes(updated.state.status);
+      setRecommendations(current => stillListed
+        ? current.map(r => r.id === rec.id ? updated : r)
+        : current.filter(r => r.id !== rec.id));
+      if (!stillListed) setManaging(null);
+    } catch (e) {
+      setUpdateError(e instanceof Error ? e.message : 'Failed to update recommendation');
+    }
   };
 
-  const toggleChat = (target: string) => {
-    setRecStates(prev => {
-      const newMap = new Map(prev);
-      newMap.set(target, prev.get(target) === 'highlighted' ? 'default' : 'highlighted');
-      return newMap;
-    });
-  };
+  const handleResolve = (rec: Recommendation) => handleUpdate(rec, { status: 'resolved' });
 
   const handleChatAbout = (rec: Recommendation) => {
     console.log('Opening advice for:', rec);
@@ -350,6 +420,37 @@ export function DashboardWidget() {
             </svg>
           </a>
         </div>
+        
+        {/* Review tabs and who is making changes */}
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-4 text-sm">
+          <div className="flex gap-1">
+            {(Object.keys(REVIEW_VIEWS) as ReviewView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 rounded-md transition-colors ${
+                  view === option
+                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200 font-medium'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {REVIEW_VIEWS[option].label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => {
+              setAuthor(e.target.value);
+              localStorage.setItem('recommendationAuthor', e.target.value);
+            }}
+            placeholder="Your name"
+            className="w-32 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+            aria-label="Your name"
+          />
+        </div>
+        {updateError && <p className="mt-2 text-sm text-red-600">{updateError}</p>}
       </div>
       
       <div className="p-6 flex-1 overflow-auto">
@@ -371,12 +472,12 @@ export function DashboardWidget() {
         ) : recommendations && recommendations.length > 0 ? (
           <ul className="space-y-4">
             {recommendations
-              // Filter to only show downtrending items that aren't resolved
-              .filter(rec => rec.action === 'reverse_decline' && recStates.get(rec.target) !== 'resolved')
-              // Take only 3 recommendations
-              .slice(0, 3)
+              // Growth items need no action; the API already filtered by status
+              .filter(rec => rec.action !== 'maintain_growth')
+              // Take only 5 to act on; review tabs list everything
+              .slice(0, view === 'active' ? 5 : undefined)
               .map((rec, idx) => {
-                const key = `${rec.type}:${rec.target}`;
+                const isDecline = rec.action === 'reverse_decline';
                 
                 // Extract percentage
                 const percentMatch = rec.value?.match(/(\d+(\.\d+)?)/);
@@ -436,7 +537,7 @@ export function DashboardWidget() {
                 }
 
                 // Additional fallback: try to fetch from the API if we still don't have values
-                if (previousValue === 0 || currentValue === 0) {
+                if (isDecline && (previousValue === 0 || currentValue === 0)) {
                   console.log(`No values found for ${rec.target}, triggering API fetch`);
                   // This will trigger the fetchValuesForRec in useEffect
                   setTimeout(() => fetchValuesForRec(rec), 100);
@@ -445,15 +546,48 @@ export function DashboardWidget() {
                 console.log(`Final values for ${rec.target}:`, { previousValue, currentValue });
 
                 return (
-                  <li key={idx} className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <li key={rec.id || idx} className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
                     <div>
                       <div className="flex justify-between items-start">
                         <div>
-                          <h3 className="text-lg font-medium text-red-600 dark:text-red-500">
-                            Urgent: {rec.target}
-                          </h3>
-                          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                            Revenue declining by {percent.toFixed(1)}%
+                          {isDecline ? (
+                            <>
+                              <h3 className="text-lg font-medium text-red-600 dark:text-red-500">
+                                Urgent: {rec.target}
+                              </h3>
+                              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                                {rec.seasonality
+                                  ? `Revenue ${Math.abs(rec.seasonality.adjustedChange).toFixed(1)}% ${rec.seasonality.adjustedChange < 0 ? 'below' : 'above'} seasonal expectation`
+                                  : `Revenue declining by ${percent.toFixed(1)}%`}
+                              </p>
+                              {rec.seasonality && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                  Expected seasonal change {signedPercent(rec.seasonality.expectedChange)} (
+                                  {rec.seasonality.lastYearStart} → {rec.seasonality.lastYearEnd}) vs actual{' '}
+                                  {signedPercent(rec.seasonality.actualChange)}:{' '}
+                                  {signedPercent(rec.seasonality.adjustedChange)} beyond the usual pattern
+                                </p>
+                              )}
+                            </>
+                          ) : (
+                            <>
+                              <h3 className="text-lg font-medium text-blue-700 dark:text-blue-400">
+                                {ACTION_LABELS[rec.action] || rec.action}: {rec.target}
+                              </h3>
+                              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                                {rec.impact}
+                              </p>
+                            </>
+                          )}
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 mr-2">
+                              {STATUS_LABELS[rec.state.status]}
+                              {rec.state.status === 'snoozed' && rec.state.snoozedUntil && ` until ${rec.state.snoozedUntil}`}
+                            </span>
+                            {rec.state.assignee && <span className="mr-2">👤 {rec.state.assignee}</span>}
+                            {rec.state.status === 'dismissed' && rec.state.dismissReason && (
+                              <span>Reason: {rec.state.dismissReason}</span>
+                            )}
                           </p>
                         </div>
                         
@@ -465,15 +599,25 @@ export function DashboardWidget() {
                             Get Advice
                           </button>
                           
+                          {rec.state.status !== 'resolved' && (
+                            <button
+                              onClick={() => handleResolve(rec)}
+                              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all mt-1"
+                            >
+                              Resolve
+                            </button>
+                          )}
+                          
                           <button
-                            onClick={() => handleResolve(rec)}
-                            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all mt-1"
+                            onClick={() => setManaging(managing === rec.id ? null : rec.id)}
+                            className="px-4 py-2 text-sm text-blue-600 dark:text-blue-400 hover:underline mt-1"
                           >
-                            Resolve
+                            {managing === rec.id ? 'Close' : 'Manage'}
                           </button>
                         </div>
                       </div>
                       
+                      {isDecline ? (
                       <div className="space-y-1 mt-1">
                         <div className="flex justify-start">
                           <span className="text-gray-600 dark:text-gray-400">November 2024:</span>
@@ -489,6 +633,21 @@ export function DashboardWidget() {
                           </span>
                         </div>
                       </div>
+                      ) : rec.impactEstimate !== undefined && (
+                        <div className="flex justify-start mt-1">
+                          <span className="text-gray-600 dark:text-gray-400">Est. impact:</span>
+                          <span className={`font-medium ml-2 ${rec.impactEstimate < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                            {formatImpact(rec.impactEstimate)}
+                          </span>
+                        </div>
+                      )}
+                      
+                      {managing === rec.id && (
+                        <RecommendationActions
+                          recommendation={rec}
+                          onUpdate={(update) => handleUpdate(rec, update)}
+                        />
+                      )}
                     </div>
                   </li>
                 );
@@ -497,7 +656,11 @@ export function DashboardWidget() {
         ) : (
           <div className="text-center py-12 text-gray-500 dark:text-gray-400">
             <div className="text-5xl mb-4">✅</div>
-            <p className="text-lg">All caught up! No recommendations at this time.</p>
+            <p className="text-lg">
+              {view === 'active'
+                ? 'All caught up! No recommendations at this time.'
+                : `No ${REVIEW_VIEWS[view].label.toLowerCase()} recommendations.`}
+            </p>
           </div>
         )}
       </div>
@@ -511,3 +674,122 @@ export function DashboardWidget() {
     </div>
   );
 }
+
+// Status, assignee and notes panel under a recommendation card
+function RecommendationActions({ recommendation, onUpdate }: {
+  recommendation: Recommendation;
+  onUpdate: (update: RecommendationUpdate) => Promise<void>;
+}) {
+  const { state } = recommendation;
+  const [assignee, setAssignee] = useState(state.assignee || '');
+  const [note, setNote] = useState('');
+  const [reason, setReason] = useState('');
+  // Default snooze is one week out
+  const [snoozeUntil, setSnoozeUntil] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() + 7);
+    return date.toISOString().slice(0, 10);
+  });
+
+  const buttonClass = 'px-3 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50';
+  const inputClass = 'rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-sm dark:text-gray-200';
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {state.status !== 'open' && (
+          <button onClick={() => onUpdate({ status: 'open' })} className={buttonClass}>Reopen</button>
+        )}
+        {state.status !== 'in_progress' && (
+          <button onClick={() => onUpdate({ status: 'in_progress' })} className={buttonClass}>Start</button>
+        )}
+        <input
+          type="date"
+          value={snoozeUntil}
+          onChange={(e) => setSnoozeUntil(e.target.value)}
+          className={inputClass}
+          aria-label="Snooze until"
+        />
+        <button
+          onClick={() => onUpdate({ status: 'snoozed', snoozedUntil: snoozeUntil })}
+          disabled={!snoozeUntil}
+          className={buttonClass}
+        >
+          Snooze
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for dismissing"
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          onClick={() => onUpdate({ status: 'dismissed', dismissReason: reason })}
+          disabled={!reason.trim()}
+          className={buttonClass}
+        >
+          Dismiss
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          placeholder="Assignee"
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          onClick={() => onUpdate({ assignee: assignee.trim() || null })}
+          disabled={(assignee.trim() || null) === state.assignee}
+          className={buttonClass}
+        >
+          Assign
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a note"
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          onClick={async () => {
+            await onUpdate({ note });
+            setNote('');
+          }}
+          disabled={!note.trim()}
+          className={buttonClass}
+        >
+          Add note
+        </button>
+      </div>
+
+      {state.notes.length > 0 && (
+        <ul className="space-y-1 text-gray-600 dark:text-gray-400">
+          {state.notes.map((entry, i) => (
+            <li key={i}>
+              <span className="text-gray-400">
+                {new Date(entry.createdAt).toLocaleDateString()}{entry.author && ` · ${entry.author}`}:
+              </span>{' '}
+              {entry.text}
+            </li>
+          ))}
+        </ul>
+      )}
+      {state.updatedAt && (
+        <p className="text-xs text-gray-400">
+          Last updated {new Date(state.updatedAt).toLocaleString()}{state.updatedBy && ` by ${state.updatedBy}`}
+        </p>
+      )}
+    </div>
+  );
+}
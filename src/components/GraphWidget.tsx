@@ -1,15 +1,18 @@
 "use client";
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
-  Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell
+  Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, ComposedChart, Area
 } from 'recharts';
+import { toCsv, downloadBlob, exportFilename, serializeChartSvg, chartToPng } from '@/utils/chartExport';
+import type { ExportContext } from '@/utils/chartExport';
 
 // Add debug logging
 console.log('GraphWidget module loading');
 
 type TimeSeriesData = {
   date: string;
+  period?: string;
   value: number;
   category?: string;
 }[];
@@ -17,24 +20,176 @@ type TimeSeriesData = {
 type PieChartData = {
   name: string;
   value: number;
+  otherCount?: number; // only on the aggregated "Other" slice
 }[];
 
+type RankedBreakdown = {
+  rank: number;
+  name: string;
+  value: number;
+  percentage: number;
+  orders: number;
+  units: number;
+}[];
+
+type MetricPoint = {
+  date: string;
+  period: string;
+  revenue: number;
+  orders: number;
+  units: number;
+  aov: number;
+  itemsPerOrder: number;
+  customers: number;
+  newCustomers: number;
+  returningCustomers: number;
+};
+
 type GraphData = {
   revenueTrend: TimeSeriesData;
+  metricTrend?: MetricPoint[];
   revenueByLocation: PieChartData;
   revenueByProduct: PieChartData;
+  locationRanking?: RankedBreakdown;
+  productRanking?: RankedBreakdown;
   monthlyComparison: {
     month: string;
     current: number;
     previous: number;
   }[];
+  monthlyComparisonYears?: {
+    current: number | null;
+    previous: number | null;
+    previousHasData: boolean;
+  };
+  comparison?: PeriodComparison | null;
+  filters?: {
+    products: string[];
+    locations: string[];
+    discountCodes: string[];
+  };
+  availableFilters?: {
+    products: string[];
+    locations: string[];
+    discountCodes: string[];
+  };
+  range?: {
+    from: string | null;
+    to: string | null;
+    dataFrom: string | null;
+    dataTo: string | null;
+  };
+  meta?: {
+    asOf: string;
+    rowCount: number;
+    truncated: boolean;
+  };
+};
+
+type PeriodComparison = {
+  current: { from: string; to: string; total: number; hasData: boolean };
+  previous: { from: string; to: string; total: number; hasData: boolean };
+  delta: number;
+  percentChange: number | null;
+  series: {
+    index: number;
+    currentLabel: string | null;
+    previousLabel: string | null;
+    current: number;
+    previous: number;
+    delta: number;
+    percentChange: number | null;
+  }[];
+};
+
+// Day-of-week × hour matrix from /api/graphs/heatmap (rows Monday first)
+type HeatmapData = {
+  weekdays: string[];
+  hours: number[];
+  revenue: number[][];
+  orders: number[][];
+  maxRevenue: number;
+  maxOrders: number;
+};
+
+type HeatmapMeasure = 'revenue' | 'orders';
+
+// Forecast-vs-actual scores from /api/revenue-forecast/accuracy
+type AccuracyStats = {
+  points: number;
+  mae: number;
+  mape: number | null;
+  bias: number;
+  coverage80: number;
+  coverage95: number;
+};
+
+type ForecastOverlayPoint = {
+  period: string;
+  date: string;
+  forecast: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+  actual: number | null;
+};
+
+type ForecastAccuracyData = {
+  snapshots: {
+    id: string;
+    createdAt: string;
+    datasetVersion: number;
+    lastDay: string;
+    horizonDays: number;
+    accuracy: AccuracyStats | null;
+  }[];
+  overall: AccuracyStats | null;
+  byHorizon: (AccuracyStats & { horizon: string })[];
+  byProduct: (AccuracyStats & { product: string })[];
+  byLocation: (AccuracyStats & { location: string })[];
+  overlay: { daily: ForecastOverlayPoint[]; monthly: ForecastOverlayPoint[] };
+};
+
+// Revenue trend point with the saved forecast laid over it
+type ForecastTrendPoint = {
+  date: string;
+  period: string;
+  value: number | null;    // actual revenue; null past the end of the data
+  forecast: number | null;
+  band80: [number, number] | null;
+  band95: [number, number] | null;
+};
+
+// 'yearly' is the classic month-by-month current vs previous year view
+type ComparisonMode = 'yearly' | 'previousPeriod' | 'previousYear' | 'custom';
+
+type Granularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+type Metric = 'revenue' | 'aov' | 'units' | 'itemsPerOrder' | 'customers';
+
+const METRIC_OPTIONS: Record<Metric, { label: string; currency: boolean }> = {
+  revenue: { label: 'Revenue', currency: true },
+  aov: { label: 'Avg Order Value', currency: true },
+  units: { label: 'Units Sold', currency: false },
+  itemsPerOrder: { label: 'Items per Order', currency: false },
+  customers: { label: 'Customers', currency: false }
+};
+
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly'
 };
 
 // Color palette for consistent look
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
+const OTHER_COLOR = '#9CA3AF'; // grey for the aggregated "Other" slice
 
-// Add this type for time range options
-type TimeRange = 'all' | '30days' | '90days' | '6months' | '1year';
+// Add this type for time range options (presets are relative to the latest sale)
+type TimeRange = 'all' | '30days' | '90days' | '6months' | '1year' | 'mtd' | 'qtd' | 'ytd' | 'lastQuarter' | 'custom';
 
 export function GraphWidget() {
   console.log('GraphWidget component rendering');
@@ -42,21 +197,81 @@ export function GraphWidget() {
   const [graphData, setGraphData] = useState<GraphData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeGraph, setActiveGraph] = useState<'revenue' | 'location' | 'product' | 'comparison'>('revenue');
+  const [activeGraph, setActiveGraph] = useState<'revenue' | 'location' | 'product' | 'comparison' | 'heatmap' | 'accuracy'>('revenue');
   
   // Add time range state
   const [timeRange, setTimeRange] = useState<TimeRange>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  
+  const [granularity, setGranularity] = useState<Granularity>('month');
+  const [metric, setMetric] = useState<Metric>('revenue');
+  
+  // Comparison tab: baseline for the selected range
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('yearly');
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('');
+  
+  // Location/product breakdowns: pie (top N + Other) or the full ranked table
+  const [breakdownView, setBreakdownView] = useState<'chart' | 'table'>('chart');
+  const [topN, setTopN] = useState(6);
+  
+  // Heatmap tab is fetched separately, only while it is open
+  const [heatmap, setHeatmap] = useState<HeatmapData | null>(null);
+  const [heatmapMeasure, setHeatmapMeasure] = useState<HeatmapMeasure>('revenue');
+  const [heatmapError, setHeatmapError] = useState<string | null>(null);
+  
+  // Saved forecasts vs actuals: the accuracy tab and the trend's forecast band
+  const [forecastAccuracy, setForecastAccuracy] = useState<ForecastAccuracyData | null>(null);
+  const [accuracyError, setAccuracyError] = useState<string | null>(null);
+  const [showForecast, setShowForecast] = useState(false);
+  
+  // The rendered chart, for PNG/SVG export
+  const chartRef = useRef<HTMLDivElement>(null);
+  
+  // Cross-filters: click a pie slice to filter the other charts to it
+  const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
+  const [selectedProducts, setSelectedProducts] = useState<string[]>([]);
+  const [selectedDiscountCode, setSelectedDiscountCode] = useState('');
+  
+  const toggleSelection = (setter: typeof setSelectedLocations, value: string) => {
+    setter(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
+  };
+  
+  const hasFilters = selectedLocations.length > 0 || selectedProducts.length > 0 || !!selectedDiscountCode;
 
+  // Each fetch effect aborts its request when its inputs change again, so a
+  // slow older response can't overwrite the newer one
   useEffect(() => {
     console.log('GraphWidget mounted');
+    const controller = new AbortController();
     
     async function fetchGraphData() {
       try {
         setError(null);
         setLoading(true);
         
-        // Add timeRange parameter to the API request
-        const res = await fetch(`/api/graphs?timeRange=${timeRange}`);
+        // Add timeRange (or the custom from/to dates) to the API request
+        const params = new URLSearchParams();
+        if (timeRange === 'custom') {
+          if (customFrom) params.set('from', customFrom);
+          if (customTo) params.set('to', customTo);
+        } else {
+          params.set('timeRange', timeRange);
+        }
+        params.set('granularity', granularity);
+        params.set('topN', String(topN));
+        if (comparisonMode !== 'yearly' && (comparisonMode !== 'custom' || (compareFrom && compareTo))) {
+          params.set('compare', comparisonMode);
+          if (comparisonMode === 'custom') {
+            params.set('compareFrom', compareFrom);
+            params.set('compareTo', compareTo);
+          }
+        }
+        selectedLocations.forEach(location => params.append('location', location));
+        selectedProducts.forEach(product => params.append('product', product));
+        if (selectedDiscountCode) params.set('discountCode', selectedDiscountCode);
+        const res = await fetch(`/api/graphs?${params}`, { signal: controller.signal });
         if (!res.ok) {
           const errorData = await res.json().catch(() => ({ 
             error: 'Server error' 
@@ -64,26 +279,266 @@ export function GraphWidget() {
           throw new Error(errorData.error || `Server error (${res.status})`);
         }
         const data = await res.json();
+        if (controller.signal.aborted) return;
         console.log('Graph data received:', data);
         setGraphData(data);
       } catch (e) {
+        if (controller.signal.aborted) return;
         console.error('Failed to load graph data:', e);
         setError(e instanceof Error ? e.message : 'Failed to load graph data');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     }
 
     fetchGraphData();
     
-    return () => console.log('GraphWidget unmounted');
-  }, [timeRange]); // Add timeRange as a dependency
+    return () => {
+      controller.abort();
+      console.log('GraphWidget unmounted');
+    };
+  }, [timeRange, customFrom, customTo, granularity, topN, comparisonMode, compareFrom, compareTo, selectedLocations, selectedProducts, selectedDiscountCode]); // Refetch when the range or filters change
+
+  useEffect(() => {
+    if (activeGraph !== 'heatmap') return;
+    const controller = new AbortController();
+    
+    async function fetchHeatmap() {
+      try {
+        setHeatmapError(null);
+        const params = new URLSearchParams();
+        if (timeRange === 'custom') {
+          if (customFrom) params.set('from', customFrom);
+          if (customTo) params.set('to', customTo);
+        } else {
+          params.set('timeRange', timeRange);
+        }
+        selectedLocations.forEach(location => params.append('location', location));
+        selectedProducts.forEach(product => params.append('product', product));
+        if (selectedDiscountCode) params.set('discountCode', selectedDiscountCode);
+        const res = await fetch(`/api/graphs/heatmap?${params}`, { signal: controller.signal });
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({ error: 'Server error' }));
+          throw new Error(errorData.error || `Server error (${res.status})`);
+        }
+        const data = await res.json();
+        if (controller.signal.aborted) return;
+        setHeatmap(data);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load heatmap:', e);
+        setHeatmapError(e instanceof Error ? e.message : 'Failed to load heatmap');
+      }
+    }
+
+    fetchHeatmap();
+    return () => controller.abort();
+  }, [activeGraph, timeRange, customFrom, customTo, selectedLocations, selectedProducts, selectedDiscountCode]);
+
+  // Refetched when the dataset reloads, so new actuals get scored
+  const dataAsOf = graphData?.meta?.asOf;
+  useEffect(() => {
+    if (activeGraph !== 'accuracy' && !showForecast) return;
+    const controller = new AbortController();
+    
+    async function fetchForecastAccuracy() {
+      try {
+        setAccuracyError(null);
+        const res = await fetch('/api/revenue-forecast/accuracy', { signal: controller.signal });
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({ error: 'Server error' }));
+          throw new Error(errorData.error || `Server error (${res.status})`);
+        }
+        const data = await res.json();
+        if (controller.signal.aborted) return;
+        setForecastAccuracy(data);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load forecast accuracy:', e);
+        setAccuracyError(e instanceof Error ? e.message : 'Failed to load forecast accuracy');
+      }
+    }
+
+    fetchForecastAccuracy();
+    return () => controller.abort();
+  }, [activeGraph, showForecast, dataAsOf]);
+
+  // The band is the company-total forecast, so it only fits an unfiltered
+  // revenue trend at the granularities forecasts are saved in
+  const canOverlayForecast = metric === 'revenue' && (granularity === 'day' || granularity === 'month') && !hasFilters;
+  const getForecastTrend = (): ForecastTrendPoint[] | null => {
+    if (!showForecast || !canOverlayForecast || !forecastAccuracy || !graphData) return null;
+    const overlay = granularity === 'day' ? forecastAccuracy.overlay.daily : forecastAccuracy.overlay.monthly;
+    const reachesEnd = !graphData.range?.to || graphData.range.to === graphData.range.dataTo;
+    return mergeForecastTrend(graphData.revenueTrend, overlay, reachesEnd);
+  };
 
   const formatCurrency = (value: number) => {
     return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
   };
 
-  if (loading) {
+  // Name, range, settings and filters of the view being exported
+  const getExportContext = (): ExportContext => {
+    const views: Record<typeof activeGraph, string> = {
+      revenue: `${METRIC_OPTIONS[metric].label} Trend`,
+      location: 'Revenue by Location',
+      product: 'Revenue by Product',
+      comparison: 'Revenue Comparison',
+      heatmap: `${heatmapMeasure === 'revenue' ? 'Revenue' : 'Orders'} Heatmap`,
+      accuracy: 'Forecast Accuracy'
+    };
+    const details: Record<string, string> = {};
+    if (activeGraph === 'revenue') details.Granularity = GRANULARITY_LABELS[granularity];
+    if (activeGraph === 'revenue' && getForecastTrend()) details.Overlay = 'Saved revenue forecast (80%/95% ranges)';
+    if (activeGraph === 'comparison') {
+      details.Baseline = comparisonMode === 'yearly' || !graphData?.comparison
+        ? `${graphData?.monthlyComparisonYears?.current} vs ${graphData?.monthlyComparisonYears?.previous}`
+        : `${graphData.comparison.previous.from} to ${graphData.comparison.previous.to}`;
+    }
+    if (graphData?.meta) details['Data as of'] = graphData.meta.asOf;
+
+    return {
+      view: views[activeGraph],
+      from: graphData?.range?.from || null,
+      to: graphData?.range?.to || null,
+      details,
+      filters: {
+        Locations: selectedLocations,
+        Products: selectedProducts,
+        'Discount code': selectedDiscountCode ? [selectedDiscountCode] : []
+      }
+    };
+  };
+
+  // Underlying rows of the active view as CSV
+  const exportCsv = () => {
+    if (!graphData) return;
+    const context = getExportContext();
+    let columns: { key: string; title: string }[];
+    let rows: Record<string, string | number | null>[];
+
+    if (activeGraph === 'revenue' && metric !== 'revenue' && graphData.metricTrend) {
+      columns = [
+        { key: 'period', title: 'Period' },
+        { key: 'date', title: 'Label' },
+        { key: 'revenue', title: 'Revenue' },
+        { key: 'orders', title: 'Orders' },
+        { key: 'units', title: 'Units' },
+        { key: 'aov', title: 'Avg Order Value' },
+        { key: 'itemsPerOrder', title: 'Items per Order' },
+        { key: 'customers', title: 'Customers' },
+        { key: 'newCustomers', title: 'New Customers' },
+        { key: 'returningCustomers', title: 'Returning Customers' }
+      ];
+      rows = graphData.metricTrend;
+    } else if (activeGraph === 'revenue' && getForecastTrend()) {
+      columns = [
+        { key: 'period', title: 'Period' },
+        { key: 'date', title: 'Label' },
+        { key: 'value', title: 'Revenue' },
+        { key: 'forecast', title: 'Forecast' },
+        { key: 'lower80', title: '80% Low' },
+        { key: 'upper80', title: '80% High' },
+        { key: 'lower95', title: '95% Low' },
+        { key: 'upper95', title: '95% High' }
+      ];
+      rows = getForecastTrend()!.map(({ band80, band95, ...point }) => ({
+        ...point,
+        lower80: band80?.[0] ?? null,
+        upper80: band80?.[1] ?? null,
+        lower95: band95?.[0] ?? null,
+        upper95: band95?.[1] ?? null
+      }));
+    } else if (activeGraph === 'revenue') {
+      columns = [
+        { key: 'period', title: 'Period' },
+        { key: 'date', title: 'Label' },
+        { key: 'value', title: 'Revenue' }
+      ];
+      rows = graphData.revenueTrend;
+    } else if (activeGraph === 'location' || activeGraph === 'product') {
+      columns = [
+        { key: 'rank', title: 'Rank' },
+        { key: 'name', title: activeGraph === 'location' ? 'Location' : 'Product' },
+        { key: 'value', title: 'Revenue' },
+        { key: 'percentage', title: 'Share %' },
+        { key: 'orders', title: 'Orders' },
+        { key: 'units', title: 'Units' }
+      ];
+      rows = (activeGraph === 'location' ? graphData.locationRanking : graphData.productRanking) || [];
+    } else if (activeGraph === 'comparison' && comparisonMode !== 'yearly' && graphData.comparison) {
+      columns = [
+        { key: 'currentLabel', title: 'Current Period' },
+        { key: 'previousLabel', title: 'Comparison Period' },
+        { key: 'current', title: 'Current' },
+        { key: 'previous', title: 'Comparison' },
+        { key: 'delta', title: 'Change' },
+        { key: 'percentChange', title: 'Change %' }
+      ];
+      rows = graphData.comparison.series;
+    } else if (activeGraph === 'comparison') {
+      columns = [
+        { key: 'month', title: 'Month' },
+        { key: 'current', title: String(graphData.monthlyComparisonYears?.current ?? 'Current Year') },
+        { key: 'previous', title: String(graphData.monthlyComparisonYears?.previous ?? 'Previous Year') }
+      ];
+      rows = graphData.monthlyComparison;
+    } else if (activeGraph === 'accuracy') {
+      if (!forecastAccuracy) return;
+      columns = [
+        { key: 'group', title: 'Group' },
+        { key: 'name', title: 'Name' },
+        { key: 'points', title: 'Days Scored' },
+        { key: 'mae', title: 'MAE' },
+        { key: 'mape', title: 'MAPE %' },
+        { key: 'bias', title: 'Bias' },
+        { key: 'coverage80', title: 'In 80% Range %' },
+        { key: 'coverage95', title: 'In 95% Range %' }
+      ];
+      rows = [
+        ...forecastAccuracy.byHorizon.map(({ horizon, ...stats }) => ({ group: 'Horizon', name: horizon, ...stats })),
+        ...forecastAccuracy.byProduct.map(({ product, ...stats }) => ({ group: 'Product', name: product, ...stats })),
+        ...forecastAccuracy.byLocation.map(({ location, ...stats }) => ({ group: 'Location', name: location, ...stats }))
+      ];
+    } else {
+      if (!heatmap) return;
+      const matrix = heatmapMeasure === 'revenue' ? heatmap.revenue : heatmap.orders;
+      columns = [
+        { key: 'day', title: 'Day' },
+        ...heatmap.hours.map(hour => ({ key: String(hour), title: `${String(hour).padStart(2, '0')}:00` }))
+      ];
+      rows = heatmap.weekdays.map((day, dayIndex) => ({
+        day,
+        ...Object.fromEntries(heatmap.hours.map(hour => [String(hour), matrix[dayIndex][hour]]))
+      }));
+    }
+
+    const csv = toCsv(columns, rows, context);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), exportFilename(context, 'csv'));
+  };
+
+  // Rendered recharts chart as SVG or PNG
+  const exportImage = async (format: 'svg' | 'png') => {
+    const svg = chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!svg) return;
+    const context = getExportContext();
+    try {
+      const blob = format === 'svg'
+        ? new Blob([serializeChartSvg(svg, context).markup], { type: 'image/svg+xml' })
+        : await chartToPng(svg, context);
+      downloadBlob(blob, exportFilename(context, format));
+    } catch (e) {
+      console.error('Chart export failed:', e);
+      setError(e instanceof Error ? e.message : 'Chart export failed');
+    }
+  };
+
+  // Tables and the heatmap grid aren't recharts charts, so only CSV applies
+  const canExportImage = activeGraph !== 'heatmap' && activeGraph !== 'accuracy' &&
+    !((activeGraph === 'location' || activeGraph === 'product') && breakdownView === 'table');
+
+  // Keep showing the previous charts while a new range loads
+  if (loading && !graphData) {
     return (
       <div className="p-8 bg-white dark:bg-gray-800 rounded-xl shadow-lg animate-pulse">
         <div className="h-4 bg-gray-200 dark:bg-gray-700 w-1/4 mb-8 rounded"></div>
@@ -92,7 +547,7 @@ export function GraphWidget() {
     );
   }
 
-  if (error) {
+  if (error && !graphData) {
     return (
       <div className="p-8 bg-white dark:bg-gray-800 rounded-xl shadow-lg">
         <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -116,28 +571,84 @@ export function GraphWidget() {
     );
   }
 
+  const forecastTrend = activeGraph === 'revenue' ? getForecastTrend() : null;
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden h-full flex flex-col">
       <div className="p-6 border-b border-gray-200 dark:border-gray-700">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-            Sales Analytics
-          </h2>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Sales Analytics
+            </h2>
+            {graphData.meta && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Data as of {new Date(graphData.meta.asOf).toLocaleString()}
+                {' · '}{graphData.meta.rowCount.toLocaleString()} rows
+                {graphData.meta.truncated && ' (truncated)'}
+              </p>
+            )}
+          </div>
           
           {/* Time Range Selection */}
-          <div className="flex items-center space-x-2 bg-gray-50 dark:bg-gray-700 px-3 py-2 rounded-lg">
-            <span className="text-sm text-gray-500 dark:text-gray-400">Time Range:</span>
-            <select
-              value={timeRange}
-              onChange={(e) => setTimeRange(e.target.value as TimeRange)}
-              className="bg-transparent border-none focus:ring-0 text-sm font-medium text-gray-700 dark:text-gray-200"
-            >
-              <option value="all">All Time</option>
-              <option value="30days">Last 30 Days</option>
-              <option value="90days">Last 90 Days</option>
-              <option value="6months">Last 6 Months</option>
-              <option value="1year">Last Year</option>
-            </select>
+          <div className="flex flex-col items-end gap-1">
+            <div className="flex flex-wrap items-center gap-2 bg-gray-50 dark:bg-gray-700 px-3 py-2 rounded-lg">
+              <span className="text-sm text-gray-500 dark:text-gray-400">Time Range:</span>
+              <select
+                value={timeRange}
+                onChange={(e) => {
+                  const value = e.target.value as TimeRange;
+                  // Start a custom range from whatever is currently shown
+                  if (value === 'custom') {
+                    setCustomFrom(graphData.range?.from || '');
+                    setCustomTo(graphData.range?.to || '');
+                  }
+                  setTimeRange(value);
+                }}
+                className="bg-transparent border-none focus:ring-0 text-sm font-medium text-gray-700 dark:text-gray-200"
+              >
+                <option value="all">All Time</option>
+                <option value="30days">Last 30 Days</option>
+                <option value="90days">Last 90 Days</option>
+                <option value="6months">Last 6 Months</option>
+                <option value="1year">Last Year</option>
+                <option value="mtd">Month to Date</option>
+                <option value="qtd">Quarter to Date</option>
+                <option value="ytd">Year to Date</option>
+                <option value="lastQuarter">Last Full Quarter</option>
+                <option value="custom">Custom Range…</option>
+              </select>
+              {timeRange === 'custom' && (
+                <>
+                  <input
+                    type="date"
+                    value={customFrom}
+                    min={graphData.range?.dataFrom || undefined}
+                    max={customTo || graphData.range?.dataTo || undefined}
+                    onChange={(e) => setCustomFrom(e.target.value)}
+                    className="text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+                    aria-label="From date"
+                  />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={customTo}
+                    min={customFrom || graphData.range?.dataFrom || undefined}
+                    max={graphData.range?.dataTo || undefined}
+                    onChange={(e) => setCustomTo(e.target.value)}
+                    className="text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+                    aria-label="To date"
+                  />
+                </>
+              )}
+            </div>
+            {error ? (
+              <span className="text-xs text-red-600">{error}</span>
+            ) : graphData.range?.from && graphData.range?.to && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {loading ? 'Loading…' : `Showing ${graphData.range.from} to ${graphData.range.to}`}
+              </span>
+            )}
           </div>
         </div>
         
@@ -151,7 +662,7 @@ export function GraphWidget() {
                 : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
             }`}
           >
-            💵 Revenue Trend
+            💵 Trend
           </button>
           <button
             onClick={() => setActiveGraph('location')}
@@ -181,17 +692,353 @@ export function GraphWidget() {
                 : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
             }`}
           >
-            📊 Monthly Comparison
+            📊 Comparison
           </button>
+          <button
+            onClick={() => setActiveGraph('heatmap')}
+            className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${
+              activeGraph === 'heatmap' 
+                ? 'bg-blue-600 text-white shadow-sm' 
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            🔥 Heatmap
+          </button>
+          <button
+            onClick={() => setActiveGraph('accuracy')}
+            className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${
+              activeGraph === 'accuracy' 
+                ? 'bg-blue-600 text-white shadow-sm' 
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            🎯 Forecast Accuracy
+          </button>
+          
+          {/* Export the active view */}
+          <div className="flex items-center gap-1 ml-auto text-sm">
+            <span className="text-gray-500 dark:text-gray-400">Export:</span>
+            <button
+              onClick={exportCsv}
+              className="px-2 py-1 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              CSV
+            </button>
+            {canExportImage && (
+              <>
+                <button
+                  onClick={() => exportImage('png')}
+                  className="px-2 py-1 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  PNG
+                </button>
+                <button
+                  onClick={() => exportImage('svg')}
+                  className="px-2 py-1 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  SVG
+                </button>
+              </>
+            )}
+          </div>
         </div>
       </div>
 
+      {/* Active filters */}
+      <div className="px-6 pt-4 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-500 dark:text-gray-400">Filters:</span>
+        {selectedLocations.map(location => (
+          <button
+            key={`location-${location}`}
+            onClick={() => toggleSelection(setSelectedLocations, location)}
+            className="px-2 py-1 rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200 hover:bg-blue-200"
+            title="Remove filter"
+          >
+            🏪 {location} ×
+          </button>
+        ))}
+        {selectedProducts.map(product => (
+          <button
+            key={`product-${product}`}
+            onClick={() => toggleSelection(setSelectedProducts, product)}
+            className="px-2 py-1 rounded-full bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200 hover:bg-green-200"
+            title="Remove filter"
+          >
+            🛍️ {product} ×
+          </button>
+        ))}
+        <select
+          value={selectedDiscountCode}
+          onChange={(e) => setSelectedDiscountCode(e.target.value)}
+          className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-sm dark:text-gray-200"
+          aria-label="Discount code"
+        >
+          <option value="">All discount codes</option>
+          <option value="none">No discount code</option>
+          {graphData.availableFilters?.discountCodes.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+        {hasFilters ? (
+          <button
+            onClick={() => {
+              setSelectedLocations([]);
+              setSelectedProducts([]);
+              setSelectedDiscountCode('');
+            }}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Clear all
+          </button>
+        ) : (
+          <span className="text-xs text-gray-400">Click a location or product slice to filter the other charts</span>
+        )}
+      </div>
+
+      {/* Metric selector and granularity toggle for the trend */}
+      {activeGraph === 'revenue' && (
+        <div className="px-6 pt-3 flex flex-wrap items-center gap-1 text-sm">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as Metric)}
+            className="mr-3 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+            aria-label="Metric"
+          >
+            {(Object.keys(METRIC_OPTIONS) as Metric[]).map(option => (
+              <option key={option} value={option}>{METRIC_OPTIONS[option].label}</option>
+            ))}
+          </select>
+          {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setGranularity(option)}
+              className={`px-3 py-1 rounded-md transition-colors ${
+                granularity === option
+                  ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200 font-medium'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {GRANULARITY_LABELS[option]}
+            </button>
+          ))}
+          {metric === 'revenue' && (
+            <label className="ml-3 flex items-center gap-1 text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showForecast}
+                onChange={(e) => setShowForecast(e.target.checked)}
+              />
+              Forecast band
+            </label>
+          )}
+          {showForecast && !canOverlayForecast && metric === 'revenue' && (
+            <span className="ml-2 text-xs text-gray-400">Shown for daily or monthly revenue without filters</span>
+          )}
+        </div>
+      )}
+
+      {/* Comparison baseline */}
+      {activeGraph === 'comparison' && (
+        <div className="px-6 pt-3 flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <span>Compare</span>
+          <select
+            value={comparisonMode}
+            onChange={(e) => setComparisonMode(e.target.value as ComparisonMode)}
+            className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+          >
+            <option value="yearly">This year vs last year (monthly)</option>
+            <option value="previousPeriod">Selected range vs previous period</option>
+            <option value="previousYear">Selected range vs same dates last year</option>
+            <option value="custom">Selected range vs custom range…</option>
+          </select>
+          {comparisonMode === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={compareFrom}
+                max={compareTo || undefined}
+                onChange={(e) => setCompareFrom(e.target.value)}
+                className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+                aria-label="Compare from date"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={compareTo}
+                min={compareFrom || undefined}
+                onChange={(e) => setCompareTo(e.target.value)}
+                className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+                aria-label="Compare to date"
+              />
+            </>
+          )}
+          {comparisonMode !== 'yearly' && graphData.comparison && (
+            <span className="ml-2">
+              {formatCurrency(graphData.comparison.current.total)} vs {formatCurrency(graphData.comparison.previous.total)}
+              {' '}
+              <span className={graphData.comparison.delta < 0 ? 'text-red-600' : 'text-green-600'}>
+                ({graphData.comparison.delta < 0 ? '' : '+'}{formatCurrency(graphData.comparison.delta)}
+                {graphData.comparison.percentChange !== null && `, ${graphData.comparison.percentChange.toFixed(1)}%`})
+              </span>
+              {!graphData.comparison.previous.hasData && (
+                <span className="ml-1 text-yellow-600">· no sales in the comparison range</span>
+              )}
+            </span>
+          )}
+          {comparisonMode === 'yearly' && graphData.monthlyComparisonYears?.current && (
+            <span className="ml-2">
+              {graphData.monthlyComparisonYears.current} vs {graphData.monthlyComparisonYears.previous}
+              {!graphData.monthlyComparisonYears.previousHasData && (
+                <span className="ml-1 text-yellow-600">· no sales in {graphData.monthlyComparisonYears.previous}</span>
+              )}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Chart/table toggle and top-N for the breakdowns */}
+      {(activeGraph === 'location' || activeGraph === 'product') && (
+        <div className="px-6 pt-3 flex items-center gap-3 text-sm">
+          <div className="flex items-center gap-1">
+            {(['chart', 'table'] as const).map(view => (
+              <button
+                key={view}
+                onClick={() => setBreakdownView(view)}
+                className={`px-3 py-1 rounded-md transition-colors ${
+                  breakdownView === view
+                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200 font-medium'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {view === 'chart' ? 'Chart' : 'Table'}
+              </button>
+            ))}
+          </div>
+          {breakdownView === 'chart' && (
+            <label className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+              Show top
+              <select
+                value={topN}
+                onChange={(e) => setTopN(parseInt(e.target.value, 10))}
+                className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 dark:text-gray-200"
+              >
+                {[3, 5, 6, 8, 10, 15].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Revenue/orders toggle for the heatmap */}
+      {activeGraph === 'heatmap' && (
+        <div className="px-6 pt-3 flex items-center gap-1 text-sm">
+          {(['revenue', 'orders'] as const).map(measure => (
+            <button
+              key={measure}
+              onClick={() => setHeatmapMeasure(measure)}
+              className={`px-3 py-1 rounded-md transition-colors ${
+                heatmapMeasure === measure
+                  ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200 font-medium'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {measure === 'revenue' ? 'Revenue' : 'Orders'}
+            </button>
+          ))}
+          <span className="ml-2 text-xs text-gray-400">By day of week and hour of purchase</span>
+        </div>
+      )}
+
       {/* Graph container - reduce height */}
       <div className="p-6 flex-1">
-        <div className="h-full" style={{ minHeight: '350px', maxHeight: '450px' }}>
+        {activeGraph === 'accuracy' ? (
+          accuracyError ? (
+            <p className="text-sm text-red-600">{accuracyError}</p>
+          ) : forecastAccuracy ? (
+            <ForecastAccuracyView data={forecastAccuracy} formatCurrency={formatCurrency} />
+          ) : (
+            <div className="h-64 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+          )
+        ) : activeGraph === 'heatmap' ? (
+          heatmapError ? (
+            <p className="text-sm text-red-600">{heatmapError}</p>
+          ) : heatmap ? (
+            <HeatmapGrid data={heatmap} measure={heatmapMeasure} formatCurrency={formatCurrency} />
+          ) : (
+            <div className="h-64 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+          )
+        ) : (activeGraph === 'location' || activeGraph === 'product') && breakdownView === 'table' ? (
+          <BreakdownTable
+            label={activeGraph === 'location' ? 'Location' : 'Product'}
+            rows={(activeGraph === 'location' ? graphData.locationRanking : graphData.productRanking) || []}
+            selected={activeGraph === 'location' ? selectedLocations : selectedProducts}
+            onSelect={(name) => toggleSelection(activeGraph === 'location' ? setSelectedLocations : setSelectedProducts, name)}
+            formatCurrency={formatCurrency}
+          />
+        ) : (
+        <div ref={chartRef} className="h-full" style={{ minHeight: '350px', maxHeight: '450px' }}>
           <ResponsiveContainer width="100%" height="100%">
             {(() => {
-              if (activeGraph === 'revenue') {
+              if (activeGraph === 'revenue' && metric !== 'revenue' && graphData.metricTrend) {
+                const { label, currency } = METRIC_OPTIONS[metric];
+                const formatValue = (value: number) => currency
+                  ? formatCurrency(value)
+                  : value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+                return (
+                  <LineChart
+                    data={graphData.metricTrend}
+                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis tickFormatter={formatValue} />
+                    <Tooltip formatter={(value) => formatValue(value as number)} />
+                    <Legend />
+                    <Line 
+                      type="monotone" 
+                      dataKey={metric} 
+                      name={label} 
+                      stroke="#0088FE" 
+                      activeDot={{ r: 8 }} 
+                    />
+                    {/* New vs returning split under the customer total */}
+                    {metric === 'customers' && (
+                      <Line type="monotone" dataKey="newCustomers" name="New" stroke="#00C49F" />
+                    )}
+                    {metric === 'customers' && (
+                      <Line type="monotone" dataKey="returningCustomers" name="Returning" stroke="#FF8042" />
+                    )}
+                  </LineChart>
+                );
+              } else if (activeGraph === 'revenue' && forecastTrend) {
+                const formatRange = (value: unknown) => Array.isArray(value)
+                  ? `${formatCurrency(Number(value[0]))} – ${formatCurrency(Number(value[1]))}`
+                  : formatCurrency(value as number);
+                return (
+                  <ComposedChart
+                    data={forecastTrend}
+                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis tickFormatter={formatCurrency} />
+                    <Tooltip formatter={formatRange} />
+                    <Legend />
+                    <Area type="monotone" dataKey="band95" name="95% range" stroke="none" fill="#8884d8" fillOpacity={0.12} />
+                    <Area type="monotone" dataKey="band80" name="80% range" stroke="none" fill="#8884d8" fillOpacity={0.25} />
+                    <Line type="monotone" dataKey="forecast" name="Forecast" stroke="#8884d8" strokeDasharray="5 5" dot={false} />
+                    <Line 
+                      type="monotone" 
+                      dataKey="value" 
+                      name="Revenue" 
+                      stroke="#0088FE" 
+                      activeDot={{ r: 8 }} 
+                    />
+                  </ComposedChart>
+                );
+              } else if (activeGraph === 'revenue') {
                 return (
                   <LineChart
                     data={graphData.revenueTrend}
@@ -224,9 +1071,15 @@ export function GraphWidget() {
                       dataKey="value"
                       nameKey="name"
                       label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                      onClick={(entry) => !entry.otherCount && toggleSelection(setSelectedLocations, entry.name)}
+                      className="cursor-pointer"
                     >
                       {graphData.revenueByLocation.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        <Cell
+                          key={`cell-${index}`}
+                          fill={entry.otherCount ? OTHER_COLOR : COLORS[index % COLORS.length]}
+                          fillOpacity={selectedLocations.length === 0 || selectedLocations.includes(entry.name) ? 1 : 0.3}
+                        />
                       ))}
                     </Pie>
                     <Tooltip formatter={(value) => formatCurrency(value as number)} />
@@ -246,15 +1099,47 @@ export function GraphWidget() {
                       dataKey="value"
                       nameKey="name"
                       label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                      onClick={(entry) => !entry.otherCount && toggleSelection(setSelectedProducts, entry.name)}
+                      className="cursor-pointer"
                     >
                       {graphData.revenueByProduct.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        <Cell
+                          key={`cell-${index}`}
+                          fill={entry.otherCount ? OTHER_COLOR : COLORS[index % COLORS.length]}
+                          fillOpacity={selectedProducts.length === 0 || selectedProducts.includes(entry.name) ? 1 : 0.3}
+                        />
                       ))}
                     </Pie>
                     <Tooltip formatter={(value) => formatCurrency(value as number)} />
                     <Legend />
                   </PieChart>
                 );
+              } else if (activeGraph === 'comparison' && comparisonMode !== 'yearly' && graphData.comparison) {
+                const { comparison } = graphData;
+                return (
+                  <BarChart
+                    data={comparison.series.map(point => ({
+                      ...point,
+                      label: point.currentLabel || point.previousLabel
+                    }))}
+                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis tickFormatter={formatCurrency} />
+                    <Tooltip
+                      formatter={(value, name, item) => {
+                        // Each bar is labelled with the period it actually covers
+                        const point = item.payload;
+                        const period = item.dataKey === 'current' ? point.currentLabel : point.previousLabel;
+                        return [formatCurrency(value as number), `${name}${period ? ` (${period})` : ''}`];
+                      }}
+                    />
+                    <Legend />
+                    <Bar dataKey="current" name={`${comparison.current.from} – ${comparison.current.to}`} fill="#0088FE" />
+                    <Bar dataKey="previous" name={`${comparison.previous.from} – ${comparison.previous.to}`} fill="#00C49F" />
+                  </BarChart>
+                );
               } else if (activeGraph === 'comparison') {
                 return (
                   <BarChart
@@ -295,7 +1180,234 @@ export function GraphWidget() {
             })()}
           </ResponsiveContainer>
         </div>
+        )}
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
+
+type BreakdownSortKey = 'rank' | 'name' | 'value' | 'orders' | 'units';
+
+// Full ranked list behind a pie chart, sortable by any column
+function BreakdownTable({ label, rows, selected, onSelect, formatCurrency }: {
+  label: string;
+  rows: RankedBreakdown;
+  selected: string[];
+  onSelect: (name: string) => void;
+  formatCurrency: (value: number) => string;
+}) {
+  const [sortKey, setSortKey] = useState<BreakdownSortKey>('rank');
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = [...rows].sort((a, b) => {
+    const result = sortKey === 'name'
+      ? a.name.localeCompare(b.name)
+      : a[sortKey] - b[sortKey];
+    return ascending ? result : -result;
+  });
+
+  const handleSort = (key: BreakdownSortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      // Names read best A-Z and rank 1 first; numbers largest first
+      setAscending(key === 'name' || key === 'rank');
+    }
+  };
+
+  const columns: { key: BreakdownSortKey; title: string }[] = [
+    { key: 'rank', title: '#' },
+    { key: 'name', title: label },
+    { key: 'value', title: 'Revenue' },
+    { key: 'value', title: 'Share' },
+    { key: 'orders', title: 'Orders' },
+    { key: 'units', title: 'Units' }
+  ];
+
+  if (rows.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No sales in this range.</p>;
+  }
+
+  return (
+    <div className="overflow-auto" style={{ maxHeight: '450px' }}>
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+          <tr>
+            {columns.map(column => (
+              <th
+                key={column.title}
+                onClick={() => handleSort(column.key)}
+                className="px-3 py-2 text-left font-medium text-gray-700 dark:text-gray-300 cursor-pointer select-none"
+              >
+                {column.title}
+                {sortKey === column.key && column.title !== 'Share' && (ascending ? ' ▲' : ' ▼')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {sorted.map(row => (
+            <tr
+              key={row.name}
+              onClick={() => onSelect(row.name)}
+              className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                selected.includes(row.name) ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+              }`}
+            >
+              <td className="px-3 py-2 text-gray-500">{row.rank}</td>
+              <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{row.name}</td>
+              <td className="px-3 py-2">{formatCurrency(row.value)}</td>
+              <td className="px-3 py-2">{row.percentage.toFixed(1)}%</td>
+              <td className="px-3 py-2">{row.orders.toLocaleString()}</td>
+              <td className="px-3 py-2">{row.units.toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+} 
+
+// 7×24 grid shaded by share of the busiest cell
+function HeatmapGrid({ data, measure, formatCurrency }: {
+  data: HeatmapData;
+  measure: HeatmapMeasure;
+  formatCurrency: (value: number) => string;
+}) {
+  const matrix = measure === 'revenue' ? data.revenue : data.orders;
+  const max = measure === 'revenue' ? data.maxRevenue : data.maxOrders;
+  const formatValue = (value: number) => measure === 'revenue' ? formatCurrency(value) : `${value} orders`;
+  const formatHour = (hour: number) => `${hour % 12 || 12}${hour < 12 ? 'a' : 'p'}`;
+
+  if (max === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No sales in this range.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate" style={{ borderSpacing: '2px' }}>
+        <thead>
+          <tr>
+            <th></th>
+            {data.hours.map(hour => (
+              <th key={hour} className="font-normal text-gray-500 dark:text-gray-400 w-8">{formatHour(hour)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {data.weekdays.map((day, dayIndex) => (
+            <tr key={day}>
+              <td className="pr-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{day.slice(0, 3)}</td>
+              {data.hours.map(hour => {
+                const value = matrix[dayIndex][hour];
+                return (
+                  <td
+                    key={hour}
+                    title={`${day} ${formatHour(hour)}: ${formatValue(value)}`}
+                    className="h-8 w-8 rounded"
+                    style={{
+                      backgroundColor: value > 0 ? `rgba(0, 136, 254, ${0.15 + 0.85 * (value / max)})` : 'rgba(156, 163, 175, 0.15)'
+                    }}
+                  />
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        Darker cells sell more · busiest hour: {formatValue(max)}
+      </p>
+    </div>
+  );
+}
+
+// Trend periods in range with the saved forecast over them, plus the
+// forecast periods after the data ends when the range reaches the last day
+function mergeForecastTrend(trend: TimeSeriesData, overlay: ForecastOverlayPoint[], reachesEnd: boolean): ForecastTrendPoint[] {
+  const byPeriod = new Map(overlay.map(point => [point.period, point]));
+  const toBands = (point: ForecastOverlayPoint | undefined) => ({
+    forecast: point ? point.forecast : null,
+    band80: point ? [point.lower80, point.upper80] as [number, number] : null,
+    band95: point ? [point.lower95, point.upper95] as [number, number] : null
+  });
+
+  const points: ForecastTrendPoint[] = trend.map(point => ({
+    date: point.date,
+    period: point.period || point.date,
+    value: point.value,
+    ...toBands(byPeriod.get(point.period || ''))
+  }));
+
+  if (reachesEnd) {
+    const lastPeriod = points[points.length - 1]?.period || '';
+    overlay
+      .filter(point => point.period > lastPeriod)
+      .forEach(point => points.push({ date: point.date, period: point.period, value: null, ...toBands(point) }));
+  }
+  return points;
+}
+
+// Saved forecasts scored against actuals, by horizon, product and store
+function ForecastAccuracyView({ data, formatCurrency }: {
+  data: ForecastAccuracyData;
+  formatCurrency: (value: number) => string;
+}) {
+  const latest = data.snapshots[data.snapshots.length - 1];
+  const groups: { title: string; rows: (AccuracyStats & { name: string })[] }[] = [
+    { title: 'Days ahead', rows: data.byHorizon.map(({ horizon, ...stats }) => ({ name: horizon, ...stats })) },
+    { title: 'Product', rows: data.byProduct.map(({ product, ...stats }) => ({ name: product, ...stats })) },
+    { title: 'Store', rows: data.byLocation.map(({ location, ...stats }) => ({ name: location, ...stats })) }
+  ];
+
+  return (
+    <div className="space-y-6 overflow-auto text-sm" style={{ maxHeight: '450px' }}>
+      <div className="text-gray-600 dark:text-gray-300">
+        {data.overall ? (
+          <p>
+            Across {data.overall.points} forecast days, revenue forecasts were off by {formatCurrency(data.overall.mae)} a day
+            {data.overall.mape !== null && ` (${data.overall.mape.toFixed(1)}%)`} and ran
+            {' '}{data.overall.bias >= 0 ? 'high' : 'low'} by {formatCurrency(Math.abs(data.overall.bias))} on average;
+            {' '}{data.overall.coverage80.toFixed(0)}% of days landed inside the 80% range.
+          </p>
+        ) : (
+          <p>No saved forecast has reached its forecast days yet. Scores appear as new sales data arrives.</p>
+        )}
+        {latest && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {data.snapshots.length} saved forecast{data.snapshots.length === 1 ? '' : 's'} · latest made from data through {latest.lastDay}
+            {' '}(dataset v{latest.datasetVersion}, {latest.horizonDays} days ahead)
+          </p>
+        )}
+      </div>
+
+      {data.overall && groups.map(group => (
+        <table key={group.title} className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              {[group.title, 'Days scored', 'Avg error', 'MAPE', 'Bias', 'In 80% range', 'In 95% range'].map(title => (
+                <th key={title} className="px-3 py-2 text-left font-medium text-gray-700 dark:text-gray-300">{title}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {group.rows.map(row => (
+              <tr key={row.name}>
+                <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{row.name}</td>
+                <td className="px-3 py-2">{row.points}</td>
+                <td className="px-3 py-2">{formatCurrency(row.mae)}</td>
+                <td className="px-3 py-2">{row.mape !== null ? `${row.mape.toFixed(1)}%` : '—'}</td>
+                <td className={`px-3 py-2 ${row.bias >= 0 ? 'text-yellow-700 dark:text-yellow-400' : 'text-blue-700 dark:text-blue-400'}`}>
+                  {row.bias >= 0 ? '+' : '−'}{formatCurrency(Math.abs(row.bias))}
+                </td>
+                <td className="px-3 py-2">{row.coverage80.toFixed(0)}%</td>
+                <td className="px-3 py-2">{row.coverage95.toFixed(0)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ))}
+    </div>
+  );
+}
@@ -1,32 +1,89 @@
 import { useState, useEffect } from 'react';
+import type { ProductSummary } from '@/types/data';
+
+interface PriceProjection {
+  units: number;
+  unitsLow: number;
+  unitsHigh: number;
+  revenue: number;
+  revenueLow: number;
+  revenueHigh: number;
+}
+
+interface PriceChange {
+  units: number;
+  revenue: number;
+  revenuePercent: number | null;
+}
+
+interface StorePriceSimulation {
+  location: string;
+  currentPrice: number;
+  candidatePrice: number;
+  baseline: { units: number; revenue: number };
+  projected: PriceProjection;
+  change: PriceChange;
+  outsideObservedRange: boolean;
+}
+
+interface PriceSimulation {
+  baselineWeeks: number;
+  elasticity: number;
+  elasticityRange: { low: number; high: number } | null;
+  observedRange: { min: number; max: number } | null;
+  stores: StorePriceSimulation[];
+  total: {
+    baseline: { units: number; revenue: number };
+    projected: PriceProjection;
+    change: PriceChange;
+  };
+  warnings: string[];
+}
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+const formatSigned = (value: number, format: (value: number) => string = v => v.toFixed(1)) =>
+  `${value >= 0 ? '+' : '-'}${format(Math.abs(value))}`;
 
 export function PriceOptimizationTab() {
-  const [products, setProducts] = useState<string[]>([]);
+  const [products, setProducts] = useState<ProductSummary[]>([]);
+  const [productSearch, setProductSearch] = useState('');
   const [selectedProduct, setSelectedProduct] = useState<string>('');
   const [priceData, setPriceData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isHistoryExpanded, setIsHistoryExpanded] = useState(false);
+  // What-if simulator: one candidate price, or one per store
+  const [candidatePrice, setCandidatePrice] = useState('');
+  const [perStore, setPerStore] = useState(false);
+  const [storePrices, setStorePrices] = useState<Record<string, string>>({});
+  const [simulation, setSimulation] = useState<PriceSimulation | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
 
-  // Fetch available products on load
+  // Fetch available products on load, and again as the search changes
   useEffect(() => {
     async function fetchProducts() {
       try {
-        const response = await fetch('/api/products');
+        const params = new URLSearchParams({ sort: 'revenue', pageSize: '100' });
+        if (productSearch.trim()) params.set('search', productSearch.trim());
+
+        const response = await fetch(`/api/products?${params}`);
         if (!response.ok) throw new Error("Failed to fetch products");
         const data = await response.json();
-        if (!Array.isArray(data) || data.length === 0) {
+        if (!Array.isArray(data.products)) {
           throw new Error("Invalid product data");
         }
-        setProducts(data);
-        setSelectedProduct(data[0]);
+        setProducts(data.products);
+        // Keep the current selection while searching; pick the top seller on first load
+        setSelectedProduct(current => current || data.products[0]?.name || '');
       } catch (err) {
         console.error("Error fetching products:", err);
         setError("Unable to load products. Please try again later.");
       }
     }
-    fetchProducts();
-  }, []);
+    const timer = setTimeout(fetchProducts, productSearch ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [productSearch]);
 
   // Fetch price data when selected product changes
   useEffect(() => {
@@ -45,8 +102,54 @@ export function PriceOptimizationTab() {
       }
     }
     if (selectedProduct) fetchPriceData();
+    setCandidatePrice('');
+    setStorePrices({});
+    setSimulation(null);
   }, [selectedProduct]);
 
+  // Re-run the simulation as the candidate prices change (debounced while typing)
+  useEffect(() => {
+    if (!selectedProduct) return;
+    const parsePrice = (value: string) => {
+      const price = parseFloat(value);
+      return isFinite(price) && price > 0 ? price : undefined;
+    };
+    const body = perStore
+      ? {
+          product: selectedProduct,
+          storePrices: Object.fromEntries(Object.entries(storePrices)
+            .map(([location, value]) => [location, parsePrice(value)])
+            .filter(([, price]) => price !== undefined))
+        }
+      : { product: selectedProduct, price: parsePrice(candidatePrice) };
+
+    // Aborted when the inputs change again, so a slow older response can't
+    // overwrite the current one
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/price-simulation', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+        const data = await response.json();
+        if (controller.signal.aborted) return;
+        if (!response.ok) throw new Error(data.error || 'Failed to simulate price');
+        setSimulation(data);
+        setSimulationError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setSimulationError(err instanceof Error ? err.message : 'Failed to simulate price');
+      }
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [selectedProduct, candidatePrice, perStore, storePrices]);
+
   // Helper functions for price operations
   const getCurrentPrice = (data: any) => {
     return parseFloat(data.formattedReport?.currentPrice?.replace(/[^0-9.-]+/g, '') || '0');
@@ -76,15 +179,31 @@ export function PriceOptimizationTab() {
         {/* Product selector */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Select Product</label>
+          <input
+            type="search"
+            value={productSearch}
+            onChange={(e) => setProductSearch(e.target.value)}
+            placeholder="Search products..."
+            className="w-full mb-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 py-2 px-3 text-sm dark:text-white"
+          />
           <select
             value={selectedProduct}
             onChange={(e) => setSelectedProduct(e.target.value)}
             className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 py-2 px-3 dark:text-white"
           >
+            {/* Keep the selected product listed even when the search filters it out */}
+            {selectedProduct && !products.some(product => product.name === selectedProduct) && (
+              <option value={selectedProduct}>{selectedProduct}</option>
+            )}
             {products.map((product) => (
-              <option key={product} value={product}>{product}</option>
+              <option key={product.id} value={product.name}>
+                {product.name} — ${product.revenue.toFixed(2)} revenue{product.active ? '' : ' (inactive)'}
+              </option>
             ))}
           </select>
+          {products.length === 0 && productSearch && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">No products match &ldquo;{productSearch}&rdquo;</p>
+          )}
         </div>
 
         {/* Loading state */}
@@ -159,6 +278,158 @@ export function PriceOptimizationTab() {
               </div>
             </div>
 
+            {/* What-if simulator */}
+            <div className="mb-4 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+              <div className="bg-indigo-50 dark:bg-indigo-900/20 p-3 border-b flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="text-xl mr-2">🧪</span>
+                  <h4 className="font-medium">What-if Price Simulator</h4>
+                </div>
+                <label className="flex items-center text-sm text-gray-600 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={perStore}
+                    onChange={(e) => setPerStore(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Price per store
+                </label>
+              </div>
+
+              <div className="p-3">
+                {!perStore ? (
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <label className="text-sm text-gray-700 dark:text-gray-300">Candidate price $</label>
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={candidatePrice}
+                      onChange={(e) => setCandidatePrice(e.target.value)}
+                      placeholder={priceData.currentPrice?.toFixed(2)}
+                      className="w-28 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-1 px-2 text-sm dark:text-white"
+                    />
+                    {[-10, -5, 5, 10].map(step => (
+                      <button
+                        key={step}
+                        onClick={() => setCandidatePrice((priceData.currentPrice * (1 + step / 100)).toFixed(2))}
+                        className="px-2 py-1 rounded-full text-xs bg-gray-200 hover:bg-gray-300 dark:bg-gray-800 dark:hover:bg-gray-600"
+                      >
+                        {step > 0 ? '+' : ''}{step}%
+                      </button>
+                    ))}
+                    {getRecommendedPrice(priceData) !== getCurrentPrice(priceData) && (
+                      <button
+                        onClick={() => setCandidatePrice(getRecommendedPrice(priceData).toFixed(2))}
+                        className="px-2 py-1 rounded-full text-xs bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-800/30 dark:text-green-300"
+                      >
+                        Optimal {priceData.formattedReport?.optimalPrice}
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2 mb-3">
+                    {simulation?.stores.map(store => (
+                      <label key={store.location} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                        <span>{store.location} <span className="text-xs text-gray-500">(now {formatMoney(store.currentPrice)})</span></span>
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={storePrices[store.location] ?? ''}
+                          onChange={(e) => setStorePrices(prev => ({ ...prev, [store.location]: e.target.value }))}
+                          placeholder={store.currentPrice.toFixed(2)}
+                          className="w-24 ml-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-1 px-2 text-sm dark:text-white"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {simulationError ? (
+                  <p className="text-sm text-red-600">{simulationError}</p>
+                ) : simulation && (
+                  <>
+                    <div className="grid grid-cols-3 gap-3 text-sm mb-3">
+                      <div className="bg-gray-50 dark:bg-gray-800 p-2 rounded">
+                        <div className="text-xs text-gray-500 mb-1">Units / week</div>
+                        <div className="font-medium">{simulation.total.projected.units.toFixed(1)}</div>
+                        <div className="text-xs text-gray-500">
+                          {simulation.total.projected.unitsLow.toFixed(1)}–{simulation.total.projected.unitsHigh.toFixed(1)} (80%)
+                        </div>
+                      </div>
+                      <div className="bg-gray-50 dark:bg-gray-800 p-2 rounded">
+                        <div className="text-xs text-gray-500 mb-1">Revenue / week</div>
+                        <div className="font-medium">{formatMoney(simulation.total.projected.revenue)}</div>
+                        <div className="text-xs text-gray-500">
+                          {formatMoney(simulation.total.projected.revenueLow)}–{formatMoney(simulation.total.projected.revenueHigh)} (80%)
+                        </div>
+                      </div>
+                      <div className="bg-gray-50 dark:bg-gray-800 p-2 rounded">
+                        <div className="text-xs text-gray-500 mb-1">vs current price</div>
+                        <div className={`font-medium ${simulation.total.change.revenue < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatSigned(simulation.total.change.revenue, formatMoney)}
+                          {simulation.total.change.revenuePercent !== null && ` (${formatSigned(simulation.total.change.revenuePercent)}%)`}
+                        </div>
+                        <div className="text-xs text-gray-500">{formatSigned(simulation.total.change.units)} units</div>
+                      </div>
+                    </div>
+
+                    {simulation.stores.length > 1 && (
+                      <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-600 mb-3">
+                        <thead className="bg-gray-50 dark:bg-gray-800">
+                          <tr>
+                            <th className="py-2 pl-4 pr-3 text-left text-sm font-medium">Store</th>
+                            <th className="px-3 py-2 text-left text-sm font-medium">Price</th>
+                            <th className="px-3 py-2 text-left text-sm font-medium">Units / week</th>
+                            <th className="px-3 py-2 text-left text-sm font-medium">Revenue / week</th>
+                            <th className="px-3 py-2 text-left text-sm font-medium">Change</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-700">
+                          {simulation.stores.map(store => (
+                            <tr key={store.location}>
+                              <td className="py-2 pl-4 pr-3 text-sm">{store.location}</td>
+                              <td className="px-3 py-2 text-sm">
+                                {formatMoney(store.candidatePrice)}
+                                {store.outsideObservedRange && <span className="ml-1 text-yellow-600" title="Outside the observed price range">⚠️</span>}
+                              </td>
+                              <td className="px-3 py-2 text-sm">
+                                {store.projected.units.toFixed(1)}
+                                <span className="text-xs text-gray-500"> ({store.projected.unitsLow.toFixed(1)}–{store.projected.unitsHigh.toFixed(1)})</span>
+                              </td>
+                              <td className="px-3 py-2 text-sm">
+                                {formatMoney(store.projected.revenue)}
+                                <span className="text-xs text-gray-500"> ({formatMoney(store.projected.revenueLow)}–{formatMoney(store.projected.revenueHigh)})</span>
+                              </td>
+                              <td className={`px-3 py-2 text-sm ${store.change.revenue < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                {formatSigned(store.change.revenue, formatMoney)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+
+                    {simulation.warnings.length > 0 && (
+                      <div className="bg-yellow-50 dark:bg-yellow-900/10 p-3 rounded border border-yellow-100 dark:border-yellow-800 flex">
+                        <span className="text-xl mr-2">⚠️</span>
+                        <ul className="text-sm text-yellow-700 dark:text-yellow-400 space-y-1">
+                          {simulation.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                        </ul>
+                      </div>
+                    )}
+
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Based on the average of the last {simulation.baselineWeeks} weeks and elasticity {simulation.elasticity.toFixed(2)}
+                      {simulation.elasticityRange && ` (80% range ${simulation.elasticityRange.low.toFixed(2)} to ${simulation.elasticityRange.high.toFixed(2)})`}.
+                      Ranges cover both the elasticity estimate and normal week-to-week swings.
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+
             {/* Promotions */}
             {priceData.topPromotions && priceData.topPromotions.length > 0 && (
               <div className="mb-4 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
@@ -249,9 +520,15 @@ export function PriceOptimizationTab() {
                     <div>
                       <h4 className="text-sm font-medium text-yellow-800 dark:text-yellow-500">Limited price data available</h4>
                       <p className="text-sm text-yellow-700 dark:text-yellow-400">
-                        Try ${(parseFloat(priceData.formattedReport?.currentPrice.replace('$', '')) * 0.95).toFixed(2)} 
-                        (-5%) and ${(parseFloat(priceData.formattedReport?.currentPrice.replace('$', '')) * 1.05).toFixed(2)} 
-                        (+5%)
+                        Try{' '}
+                        <button onClick={() => setCandidatePrice((getCurrentPrice(priceData) * 0.95).toFixed(2))} className="underline">
+                          ${(getCurrentPrice(priceData) * 0.95).toFixed(2)} (-5%)
+                        </button>
+                        {' '}or{' '}
+                        <button onClick={() => setCandidatePrice((getCurrentPrice(priceData) * 1.05).toFixed(2))} className="underline">
+                          ${(getCurrentPrice(priceData) * 1.05).toFixed(2)} (+5%)
+                        </button>
+                        {' '}in the simulator above
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,125 @@
+import type { SalesCube, CubeFilter, CubeMeasures } from '@/lib/cube';
+import { measureBy, cubeTotals } from '@/lib/cube';
+import { parseDayKey, toDayKey, addDays, enumeratePeriods, formatPeriodLabel } from '@/lib/periods';
+import type { Granularity } from '@/lib/periods';
+
+// Period-over-period comparison: lines up any two date ranges period by
+// period (1st week vs 1st week, ...) and reports absolute and % deltas.
+
+export interface DayRange {
+  from: string; // inclusive YYYY-MM-DD
+  to: string;
+}
+
+export const COMPARISON_BASELINES = ['previousPeriod', 'previousYear', 'custom'] as const;
+export type ComparisonBaseline = typeof COMPARISON_BASELINES[number];
+
+export interface ComparisonPoint {
+  index: number;
+  currentPeriod: string | null;
+  previousPeriod: string | null;
+  currentLabel: string | null;
+  previousLabel: string | null;
+  current: number;
+  previous: number;
+  delta: number;
+  percentChange: number | null; // null when the baseline is zero
+}
+
+export interface PeriodComparison {
+  metric: keyof CubeMeasures;
+  granularity: Granularity;
+  current: DayRange & { total: number; hasData: boolean };
+  previous: DayRange & { total: number; hasData: boolean };
+  delta: number;
+  percentChange: number | null;
+  series: ComparisonPoint[];
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous !== 0 ? ((current - previous) / previous) * 100 : null;
+}
+
+// Range of the same length ending the day before the current one starts.
+// Whole calendar months (e.g. a month or quarter) shift by whole months so
+// "December" compares with "November" rather than Oct 31 - Nov 30.
+export function previousPeriodRange(range: DayRange): DayRange {
+  const from = parseDayKey(range.from);
+  const to = parseDayKey(range.to);
+
+  if (from.getDate() === 1 && addDays(to, 1).getDate() === 1) {
+    const months = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+    return {
+      from: toDayKey(new Date(from.getFullYear(), from.getMonth() - months, 1)),
+      to: toDayKey(new Date(from.getFullYear(), from.getMonth(), 0))
+    };
+  }
+
+  const length = Math.round((to.getTime() - from.getTime()) / 86400000) + 1;
+  const previousTo = addDays(from, -1);
+  return { from: toDayKey(addDays(previousTo, -(length - 1))), to: toDayKey(previousTo) };
+}
+
+// The same calendar dates one year earlier (Feb 29 maps to Feb 28)
+export function previousYearRange(range: DayRange): DayRange {
+  const shift = (dayKey: string) => {
+    const date = parseDayKey(dayKey);
+    const shifted = new Date(date.getFullYear() - 1, date.getMonth(), date.getDate());
+    if (shifted.getMonth() !== date.getMonth()) shifted.setDate(0); // Rolled over into March
+    return toDayKey(shifted);
+  };
+  return { from: shift(range.from), to: shift(range.to) };
+}
+
+export function comparePeriods(
+  cube: SalesCube,
+  current: DayRange,
+  previous: DayRange,
+  options: { granularity: Granularity; metric?: keyof CubeMeasures; filter?: CubeFilter }
+): PeriodComparison {
+  const { granularity, metric = 'revenue', filter = {} } = options;
+
+  const summarize = (range: DayRange) => {
+    const rangeFilter = { ...filter, from: range.from, to: range.to };
+    const totals = cubeTotals(cube, rangeFilter);
+    return {
+      periods: enumeratePeriods(range.from, range.to, granularity),
+      values: measureBy(cube, granularity, metric, rangeFilter),
+      total: totals[metric],
+      hasData: totals.orders > 0
+    };
+  };
+
+  const currentData = summarize(current);
+  const previousData = summarize(previous);
+  const length = Math.max(currentData.periods.length, previousData.periods.length);
+
+  const series: ComparisonPoint[] = Array.from({ length }, (_, index) => {
+    const currentPeriod = currentData.periods[index] ?? null;
+    const previousPeriod = previousData.periods[index] ?? null;
+    const currentValue = currentPeriod ? currentData.values.get(currentPeriod) || 0 : 0;
+    const previousValue = previousPeriod ? previousData.values.get(previousPeriod) || 0 : 0;
+
+    return {
+      index,
+      currentPeriod,
+      previousPeriod,
+      currentLabel: currentPeriod && formatPeriodLabel(currentPeriod, granularity),
+      previousLabel: previousPeriod && formatPeriodLabel(previousPeriod, granularity),
+      current: currentValue,
+      previous: previousValue,
+      delta: currentValue - previousValue,
+      percentChange: percentChange(currentValue, previousValue)
+    };
+  });
+
+  return {
+    metric,
+    granularity,
+    current: { ...current, total: currentData.total, hasData: currentData.hasData },
+    previous: { ...previous, total: previousData.total, hasData: previousData.hasData },
+    delta: currentData.total - previousData.total,
+    percentChange: percentChange(currentData.total, previousData.total),
+    series
+  };
+}
@@ -0,0 +1,256 @@
+import type { Transaction } from '@/types/data';
+import { parseTransactions } from '@/lib/transactions';
+import { toDayKey, toMonthKey, toIsoWeekKey, toQuarterKey, toYearKey, parseDayKey } from '@/lib/periods';
+
+// Pre-aggregated analytics cube. Built once per dataset load at the finest
+// grain the widgets need (day × hour × product × location × discount code),
+// then rolled up by the query functions below so every route reports the
+// same numbers without re-scanning the raw rows.
+
+export type CubeDimension =
+  | 'day'
+  | 'week'
+  | 'month'
+  | 'quarter'
+  | 'year'
+  | 'product'
+  | 'location'
+  | 'discountCode'
+  | 'hour'
+  | 'weekday';
+
+export interface CubeMeasures {
+  revenue: number;
+  units: number;
+  orders: number;     // distinct Transaction_IDs
+  customers: number;  // distinct Customer_IDs
+}
+
+interface CubeCell {
+  day: string;         // YYYY-MM-DD
+  week: string;        // YYYY-Www (ISO)
+  month: string;       // YYYY-MM
+  quarter: string;     // YYYY-Qn
+  year: string;        // YYYY
+  hour: number;        // 0-23
+  weekday: number;     // 0 = Sunday
+  product: string;
+  location: string;
+  discountCode: string; // '' when no code was used
+  revenue: number;
+  units: number;
+  orderIds: Set<string>;
+  customerIds: Set<string>;
+}
+
+export interface SalesCube {
+  cells: CubeCell[];
+  products: string[];
+  locations: string[];
+  discountCodes: string[];
+  firstDay: string | null;
+  lastDay: string | null;
+  transactionCount: number;
+}
+
+export interface CubeFilter {
+  from?: string;            // inclusive day key (YYYY-MM-DD)
+  to?: string;              // inclusive day key
+  products?: string[];
+  locations?: string[];
+  discountCodes?: string[]; // use '' to match rows without a code
+  hours?: number[];
+  weekdays?: number[];
+}
+
+export interface CubeRow extends CubeMeasures {
+  key: Partial<Record<CubeDimension, string>>;
+}
+
+const cubeCache = new WeakMap<unknown[], SalesCube>();
+
+// Returns the cube for a dataset, building it on first use
+export function getSalesCube(data: unknown[]): SalesCube {
+  const cached = cubeCache.get(data);
+  if (cached) return cached;
+
+  const { transactions } = parseTransactions(data);
+  const cube = buildCube(transactions);
+  cubeCache.set(data, cube);
+  return cube;
+}
+
+export function buildCube(transactions: Transaction[]): SalesCube {
+  console.log(`Building sales cube from ${transactions.length} transactions`);
+  const cells = new Map<string, CubeCell>();
+
+  transactions.forEach(t => {
+    const date = t.purchaseDate;
+    const day = toDayKey(date);
+    const hour = date.getHours();
+    const discountCode = t.discountCode || '';
+    const cellKey = `${day}|${hour}|${t.productName}|${t.storeLocation}|${discountCode}`;
+
+    let cell = cells.get(cellKey);
+    if (!cell) {
+      cell = {
+        day,
+        week: toIsoWeekKey(date),
+        month: toMonthKey(date),
+        quarter: toQuarterKey(date),
+        year: toYearKey(date),
+        hour,
+        weekday: date.getDay(),
+        product: t.productName,
+        location: t.storeLocation,
+        discountCode,
+        revenue: 0,
+        units: 0,
+        orderIds: new Set(),
+        customerIds: new Set()
+      };
+      cells.set(cellKey, cell);
+    }
+
+    cell.revenue += t.lineTotal;
+    cell.units += t.quantity;
+    cell.orderIds.add(t.transactionId);
+    if (t.customerId) cell.customerIds.add(t.customerId);
+  });
+
+  const cellList = Array.from(cells.values());
+  const days = cellList.map(c => c.day).sort();
+  const distinct = (values: string[]) => Array.from(new Set(values)).sort();
+
+  return {
+    cells: cellList,
+    products: distinct(cellList.map(c => c.product)),
+    locations: distinct(cellList.map(c => c.location)),
+    discountCodes: distinct(cellList.map(c => c.discountCode).filter(Boolean)),
+    firstDay: days[0] || null,
+    lastDay: days[days.length - 1] || null,
+    transactionCount: transactions.length
+  };
+}
+
+function matchesFilter(cell: CubeCell, filter: CubeFilter): boolean {
+  if (filter.from && cell.day < filter.from) return false;
+  if (filter.to && cell.day > filter.to) return false;
+  if (filter.products && !filter.products.includes(cell.product)) return false;
+  if (filter.locations && !filter.locations.includes(cell.location)) return false;
+  if (filter.discountCodes && !filter.discountCodes.includes(cell.discountCode)) return false;
+  if (filter.hours && !filter.hours.includes(cell.hour)) return false;
+  if (filter.weekdays && !filter.weekdays.includes(cell.weekday)) return false;
+  return true;
+}
+
+// Rolls the cube up to the requested dimensions. Rows are sorted by key.
+export function queryCube(cube: SalesCube, groupBy: CubeDimension[], filter: CubeFilter = {}): CubeRow[] {
+  const groups = new Map<string, {
+    key: Partial<Record<CubeDimension, string>>;
+    revenue: number;
+    units: number;
+    orderIds: Set<string>;
+    customerIds: Set<string>;
+  }>();
+
+  cube.cells.forEach(cell => {
+    if (!matchesFilter(cell, filter)) return;
+
+    const key: Partial<Record<CubeDimension, string>> = {};
+    groupBy.forEach(dimension => {
+      key[dimension] = String(cell[dimension]);
+    });
+    const groupKey = groupBy.map(dimension => key[dimension]).join('|');
+
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { key, revenue: 0, units: 0, orderIds: new Set(), customerIds: new Set() };
+      groups.set(groupKey, group);
+    }
+
+    group.revenue += cell.revenue;
+    group.units += cell.units;
+    cell.orderIds.forEach(id => group!.orderIds.add(id));
+    cell.customerIds.forEach(id => group!.customerIds.add(id));
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([, group]) => ({
+      key: group.key,
+      revenue: group.revenue,
+      units: group.units,
+      orders: group.orderIds.size,
+      customers: group.customerIds.size
+    }));
+}
+
+// Grand totals for a filter
+export function cubeTotals(cube: SalesCube, filter: CubeFilter = {}): CubeMeasures {
+  const [totals] = queryCube(cube, [], filter);
+  return totals || { revenue: 0, units: 0, orders: 0, customers: 0 };
+}
+
+// Single-dimension breakdown as a Map (e.g. revenue by product)
+export function measureBy(
+  cube: SalesCube,
+  dimension: CubeDimension,
+  measure: keyof CubeMeasures = 'revenue',
+  filter: CubeFilter = {}
+): Map<string, number> {
+  return new Map(queryCube(cube, [dimension], filter).map(row => [row.key[dimension]!, row[measure]]));
+}
+
+// Two-level breakdown, e.g. revenue by product then month
+export function measureByPair(
+  cube: SalesCube,
+  outer: CubeDimension,
+  inner: CubeDimension,
+  measure: keyof CubeMeasures = 'revenue',
+  filter: CubeFilter = {}
+): Map<string, Map<string, number>> {
+  const result = new Map<string, Map<string, number>>();
+  queryCube(cube, [outer, inner], filter).forEach(row => {
+    const outerKey = row.key[outer]!;
+    if (!result.has(outerKey)) result.set(outerKey, new Map());
+    result.get(outerKey)!.set(row.key[inner]!, row[measure]);
+  });
+  return result;
+}
+
+// Convenience for "the last N days of data", anchored to a day key
+export function daysBefore(dayKey: string, days: number): string {
+  const date = parseDayKey(dayKey);
+  date.setDate(date.getDate() - days);
+  return toDayKey(date);
+}
+
+// Distinct customer IDs per value of a dimension (for new vs returning splits)
+export function customersBy(
+  cube: SalesCube,
+  dimension: CubeDimension,
+  filter: CubeFilter = {}
+): Map<string, Set<string>> {
+  const result = new Map<string, Set<string>>();
+  cube.cells.forEach(cell => {
+    if (!matchesFilter(cell, filter)) return;
+    const key = String(cell[dimension]);
+    if (!result.has(key)) result.set(key, new Set());
+    const customers = result.get(key)!;
+    cell.customerIds.forEach(id => customers.add(id));
+  });
+  return result;
+}
+
+// Day of each customer's first purchase anywhere in the dataset
+export function firstPurchaseDays(cube: SalesCube): Map<string, string> {
+  const firstDays = new Map<string, string>();
+  cube.cells.forEach(cell => {
+    cell.customerIds.forEach(id => {
+      const current = firstDays.get(id);
+      if (!current || cell.day < current) firstDays.set(id, cell.day);
+    });
+  });
+  return firstDays;
+}
@@ -1,34 +1,115 @@
-import { google } from 'googleapis';
-import { validateEnv } from '@/utils/env';
-import { DataMetadata } from '@/types/data';
+import { getDataSource, getColumnMapping } from '@/lib/dataSources';
+import { normalizeSalesData } from '@/lib/schema';
+import { getCachedEntry, setCachedResponse, clearCachedResponse } from '@/utils/cache';
+import { DataMetadata, DatasetMeta } from '@/types/data';
 
 // Centralized data access functions for spreadsheet operations
 
-export async function fetchSpreadsheetData() {
-  const env = validateEnv();
-  const auth = new google.auth.GoogleAuth({
-    credentials: {
-      client_email: env.GOOGLE_CLIENT_EMAIL,
-      private_key: env.GOOGLE_PRIVATE_KEY,
-      project_id: env.GOOGLE_PROJECT_ID
-    },
-    scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-  });
-
-  const client = await auth.getClient();
-  const sheets = google.sheets({ version: 'v4', auth: client as any });
+async function loadSpreadsheetData(version: number) {
+  const source = getDataSource();
+  const mapping = getColumnMapping();
   
-  console.log('Fetching spreadsheet data...');
-  const response = await sheets.spreadsheets.values.get({
-    spreadsheetId: env.SPREADSHEET_ID,
-    range: 'Sheet1!A1:I10001',
-  });
+  console.log(`Fetching sales data from ${source.description}...`);
+  const tables = (await source.fetchTables()).filter(table => table.rows.length > 0);
   
-  if (!response.data.values) {
+  if (tables.length === 0) {
     throw new Error('No data found in spreadsheet');
   }
   
-  return { sheets, env, data: response.data.values };
+  // Resolve columns by header per table (tabs may differ), then combine
+  // everything under a single canonical header row
+  const normalized = tables.map(table => ({
+    table,
+    ...normalizeSalesData(table.rows, mapping)
+  }));
+  
+  const data = [
+    normalized[0].data[0],
+    ...normalized.flatMap(n => n.data.slice(1))
+  ];
+  
+  const meta: Omit<DatasetMeta, 'cacheStatus'> = {
+    source: source.type,
+    rowCount: data.length - 1,
+    truncated: tables.some(table => table.truncated),
+    tables: normalized.map(n => ({
+      name: n.table.name,
+      rowCount: n.data.length - 1,
+      truncated: n.table.truncated
+    })),
+    asOf: new Date().toISOString(),
+    version
+  };
+  
+  console.log(`Loaded ${meta.rowCount} rows from ${tables.length} table(s)${meta.truncated ? ' (truncated)' : ''}`);
+  
+  return { data, source: source.type, columns: normalized[0].resolved, meta };
+}
+
+const DATASET_CACHE_KEY = 'dataset';
+
+// Dataset cache settings: data younger than the TTL is served as-is; older
+// data (within the stale window) is served while a reload runs in the background
+const DATA_CACHE_TTL = (parseInt(process.env.DATA_CACHE_TTL_SECONDS || '', 10) || 300) * 1000;
+const DATA_CACHE_STALE = (parseInt(process.env.DATA_CACHE_STALE_SECONDS || '', 10) || 3600) * 1000;
+
+type LoadedDataset = Awaited<ReturnType<typeof loadSpreadsheetData>>;
+
+// In-flight load shared by concurrent requests, so a dashboard load that hits
+// four routes at once only fetches the sheet once
+const datasetState = globalThis as typeof globalThis & {
+  __datasetLoad?: Promise<LoadedDataset> | null;
+  __datasetVersion?: number;
+};
+
+function startDatasetLoad(): Promise<LoadedDataset> {
+  if (datasetState.__datasetLoad) return datasetState.__datasetLoad;
+  
+  const version = (datasetState.__datasetVersion || 0) + 1;
+  const load = loadSpreadsheetData(version)
+    .then(dataset => {
+      datasetState.__datasetVersion = version;
+      setCachedResponse(DATASET_CACHE_KEY, dataset);
+      return dataset;
+    })
+    .finally(() => {
+      datasetState.__datasetLoad = null;
+    });
+  
+  datasetState.__datasetLoad = load;
+  return load;
+}
+
+function withCacheStatus(dataset: LoadedDataset, cacheStatus: DatasetMeta['cacheStatus']) {
+  return { ...dataset, meta: { ...dataset.meta, cacheStatus } as DatasetMeta };
+}
+
+export async function fetchSpreadsheetData() {
+  const entry = getCachedEntry(DATASET_CACHE_KEY);
+  
+  if (entry) {
+    const age = Date.now() - entry.timestamp;
+    
+    if (age <= DATA_CACHE_TTL) {
+      return withCacheStatus(entry.value as LoadedDataset, 'fresh');
+    }
+    
+    if (age <= DATA_CACHE_TTL + DATA_CACHE_STALE) {
+      // Serve stale data and revalidate in the background
+      startDatasetLoad().catch(error => {
+        console.error('Background dataset refresh failed, keeping stale data:', error);
+      });
+      return withCacheStatus(entry.value as LoadedDataset, 'stale');
+    }
+  }
+  
+  return withCacheStatus(await startDatasetLoad(), 'miss');
+}
+
+// Drops the cached dataset and reloads it from the source
+export async function refreshSpreadsheetData() {
+  clearCachedResponse(DATASET_CACHE_KEY);
+  return withCacheStatus(await startDatasetLoad(), 'miss');
 }
 
 export function getDataMetadata(data: any[]): DataMetadata {
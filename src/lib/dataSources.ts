@@ -0,0 +1,256 @@
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import { google } from 'googleapis';
+import { validateEnv } from '@/utils/env';
+import { SAMPLE_SALES_DATA } from '@/lib/fixtures/sampleSales';
+import type { ColumnMapping } from '@/lib/schema';
+
+// Pluggable sources for the raw sales rows. Every adapter returns one or more
+// tables in the shape the Google Sheets API does: a header row followed by
+// string rows. Tables are normalized and combined by the data layer.
+
+export type DataSourceType = 'google' | 'file' | 'memory';
+
+export interface SourceTable {
+  name: string;
+  rows: string[][];
+  truncated: boolean; // true when the row cap stopped the read early
+}
+
+export interface SalesDataSource {
+  type: DataSourceType;
+  description: string;
+  fetchTables(): Promise<SourceTable[]>;
+}
+
+const DEFAULT_BATCH_SIZE = 5000;
+
+export interface GoogleSheetsOptions {
+  tabs?: string[];      // Tabs to read and combine (e.g. one per year)
+  batchSize?: number;   // Rows requested per API call
+  maxRows?: number;     // Cap per tab, excluding the header (0 = unlimited)
+}
+
+export function createGoogleSheetsDataSource(options: GoogleSheetsOptions = {}): SalesDataSource {
+  const tabs = options.tabs && options.tabs.length > 0 ? options.tabs : ['Sheet1'];
+  const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_BATCH_SIZE;
+  const maxRows = options.maxRows && options.maxRows > 0 ? options.maxRows : 0;
+
+  return {
+    type: 'google',
+    description: `Google Sheets (${tabs.join(', ')})`,
+    async fetchTables() {
+      const env = validateEnv();
+      const auth = new google.auth.GoogleAuth({
+        credentials: {
+          client_email: env.GOOGLE_CLIENT_EMAIL,
+          private_key: env.GOOGLE_PRIVATE_KEY,
+          project_id: env.GOOGLE_PROJECT_ID
+        },
+        scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
+      });
+
+      const sheets = google.sheets({ version: 'v4', auth });
+
+      const fetchRange = async (range: string): Promise<string[][]> => {
+        const response = await sheets.spreadsheets.values.get({
+          spreadsheetId: env.SPREADSHEET_ID,
+          range,
+        });
+        return (response.data.values || []) as string[][];
+      };
+
+      const tables: SourceTable[] = [];
+      for (const tab of tabs) {
+        tables.push(await readTab(fetchRange, tab, batchSize, maxRows));
+      }
+      return tables;
+    }
+  };
+}
+
+// Reads a tab in batches until the API returns a short batch. The Sheets API
+// trims trailing empty rows, so a short batch means we've reached the end.
+async function readTab(
+  fetchRange: (range: string) => Promise<string[][]>,
+  tab: string,
+  batchSize: number,
+  maxRows: number
+): Promise<SourceTable> {
+  const quotedTab = `'${tab.replace(/'/g, "''")}'`;
+  const limit = maxRows > 0 ? maxRows + 1 : Infinity; // +1 for the header row
+  const rows: string[][] = [];
+  let truncated = false;
+  let start = 1;
+
+  while (true) {
+    if (rows.length >= limit) {
+      // Peek at the next row to tell "exactly at the cap" from "truncated"
+      const next = await fetchRange(`${quotedTab}!A${start}:Z${start}`);
+      truncated = next.length > 0;
+      break;
+    }
+
+    const size = Math.min(batchSize, limit - rows.length);
+    const end = start + size - 1;
+    console.log(`Fetching ${tab} rows ${start}-${end}...`);
+
+    const batch = await fetchRange(`${quotedTab}!A${start}:Z${end}`);
+    rows.push(...batch);
+
+    if (batch.length < size) break;
+    start = end + 1;
+  }
+
+  if (truncated) {
+    console.warn(`${tab}: stopped at ${maxRows} rows (SHEET_MAX_ROWS), remaining rows were not loaded`);
+  }
+
+  return { name: tab, rows, truncated };
+}
+
+// Reads an exported dataset from disk. Supports CSV and JSON (either an
+// array of row arrays, or an array of objects keyed by column header).
+export function createFileDataSource(filePath: string): SalesDataSource {
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+
+  return {
+    type: 'file',
+    description: `Local file (${resolvedPath})`,
+    async fetchTables() {
+      const contents = await fs.readFile(resolvedPath, 'utf8');
+      const rows = resolvedPath.toLowerCase().endsWith('.json')
+        ? parseJsonRows(contents)
+        : parseCsv(contents);
+
+      return [{ name: path.basename(resolvedPath), rows, truncated: false }];
+    }
+  };
+}
+
+export function createMemoryDataSource(rows: string[][] = SAMPLE_SALES_DATA): SalesDataSource {
+  return {
+    type: 'memory',
+    description: `In-memory fixture (${Math.max(rows.length - 1, 0)} rows)`,
+    async fetchTables() {
+      // Hand out a copy so callers can't mutate the fixture
+      return [{ name: 'fixture', rows: rows.map(row => [...row]), truncated: false }];
+    }
+  };
+}
+
+// Allows tests and scripts to swap the configured source
+let overrideSource: SalesDataSource | null = null;
+
+export function setDataSource(source: SalesDataSource | null) {
+  overrideSource = source;
+}
+
+export function getDataSource(): SalesDataSource {
+  if (overrideSource) return overrideSource;
+
+  const type = (process.env.DATA_SOURCE || 'google').toLowerCase();
+
+  switch (type) {
+    case 'google':
+      return createGoogleSheetsDataSource({
+        tabs: (process.env.SHEET_TABS || 'Sheet1').split(',').map(tab => tab.trim()).filter(Boolean),
+        batchSize: parseInt(process.env.SHEET_BATCH_SIZE || '', 10) || DEFAULT_BATCH_SIZE,
+        maxRows: parseInt(process.env.SHEET_MAX_ROWS || '', 10) || 0
+      });
+    case 'file': {
+      const filePath = process.env.DATA_FILE_PATH;
+      if (!filePath) {
+        throw new Error('DATA_FILE_PATH is required when DATA_SOURCE=file');
+      }
+      return createFileDataSource(filePath);
+    }
+    case 'memory':
+      return createMemoryDataSource();
+    default:
+      throw new Error(`Unknown DATA_SOURCE: ${type}`);
+  }
+}
+
+// Optional JSON file mapping fields to sheet headers (or 0-based column
+// indexes), e.g. { "productName": "Item", "lineTotal": "Net Sales" }
+export function getColumnMapping(): ColumnMapping {
+  const mappingPath = process.env.COLUMN_MAPPING_PATH;
+  if (!mappingPath) return {};
+
+  try {
+    const contents = readFileSync(path.resolve(process.cwd(), mappingPath), 'utf8');
+    return JSON.parse(contents) as ColumnMapping;
+  } catch (error) {
+    throw new Error(
+      `Failed to load column mapping from ${mappingPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function parseJsonRows(contents: string): string[][] {
+  const parsed = JSON.parse(contents);
+  if (!Array.isArray(parsed) || parsed.length === 0) return [];
+
+  // Already in sheet format
+  if (Array.isArray(parsed[0])) {
+    return parsed.map((row: unknown[]) => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))));
+  }
+
+  // Array of records - use the first record's keys as the header row
+  const headers = Object.keys(parsed[0]);
+  const rows = parsed.map((record: Record<string, unknown>) =>
+    headers.map(header => {
+      const value = record[header];
+      return value === null || value === undefined ? '' : String(value);
+    })
+  );
+  return [headers, ...rows];
+}
+
+// Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+function parseCsv(contents: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (contents[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && contents[i + 1] === '\n') i++;
+      row.push(field);
+      field = '';
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last line if the file doesn't end with a newline
+  row.push(field);
+  if (row.some(cell => cell !== '')) rows.push(row);
+
+  return rows;
+}
@@ -0,0 +1,162 @@
+import type { CubeFilter, SalesCube } from '@/lib/cube';
+import { daysBefore, measureBy, measureByPair } from '@/lib/cube';
+import { forecastUnits } from '@/lib/forecast';
+import { daysBetween, enumeratePeriods, parseDayKey, timeOfDay, TIMES_OF_DAY, WEEKDAY_NAMES } from '@/lib/periods';
+import type { TimeOfDay } from '@/lib/periods';
+
+// Unit demand per product and store for one day, as a kitchen prep sheet.
+// Each product × store pair gets its own units forecast (the same
+// Holt-Winters model as revenue, so the weekday pattern and yearly season
+// carry over, minus the backtest the sheet never shows); safety stock covers
+// the spread of that forecast at the chosen service level, and the prep is
+// split by time of day using when the product sells on that weekday.
+
+export interface PrepLine {
+  product: string;
+  location: string;
+  forecastUnits: number;  // expected units sold
+  lower80: number;
+  upper80: number;
+  stdDev: number;         // forecast spread, units
+  safetyStock: number;    // extra units to cover the spread
+  prepUnits: number;      // rounded forecast plus safety stock
+  weekdayAverage: number; // units sold on this weekday, average of the last few weeks
+  byTimeOfDay: Record<TimeOfDay, number>; // prepUnits split by when they sell
+}
+
+export interface PrepSheetLocation {
+  location: string;
+  forecastUnits: number;
+  prepUnits: number;
+  lines: PrepLine[];
+}
+
+export interface PrepSheet {
+  date: string;
+  weekday: string;
+  lastDataDay: string;
+  daysAhead: number;
+  serviceLevel: number;
+  locations: PrepSheetLocation[];
+}
+
+// Service level (% of days the prep should cover demand) -> one-sided normal z
+export const SERVICE_LEVEL_Z: Record<number, number> = {
+  80: 0.842,
+  85: 1.036,
+  90: 1.282,
+  95: 1.645,
+  98: 2.054,
+  99: 2.326
+};
+export const DEFAULT_SERVICE_LEVEL = 95;
+export const MAX_PREP_DAYS_AHEAD = 60;
+
+// Recent window for the weekday average and the time-of-day split; pairs
+// with no sales in ACTIVE_WEEKS are treated as no longer sold at that store
+const PATTERN_WEEKS = 12;
+const ACTIVE_WEEKS = 8;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Splits whole units in proportion to weights, largest remainders first,
+// so the parts always add back up to the total
+function splitUnits(total: number, weights: Record<TimeOfDay, number>): Record<TimeOfDay, number> {
+  const weightSum = TIMES_OF_DAY.reduce((sum, slot) => sum + weights[slot], 0);
+  const result = Object.fromEntries(TIMES_OF_DAY.map(slot => [slot, 0])) as Record<TimeOfDay, number>;
+  if (total <= 0 || weightSum <= 0) return result;
+
+  const exact = TIMES_OF_DAY.map(slot => ({ slot, value: (total * weights[slot]) / weightSum }));
+  exact.forEach(({ slot, value }) => { result[slot] = Math.floor(value); });
+  let remaining = total - exact.reduce((sum, { slot }) => sum + result[slot], 0);
+  [...exact]
+    .sort((a, b) => (b.value - Math.floor(b.value)) - (a.value - Math.floor(a.value)))
+    .forEach(({ slot }) => {
+      if (remaining > 0) {
+        result[slot]++;
+        remaining--;
+      }
+    });
+  return result;
+}
+
+// Units sold by time of day, preferring the target weekday; falls back to
+// all days when the pair has no sales on that weekday lately
+function timeOfDayWeights(cube: SalesCube, filter: CubeFilter, weekday: number): Record<TimeOfDay, number> {
+  const weights = Object.fromEntries(TIMES_OF_DAY.map(slot => [slot, 0])) as Record<TimeOfDay, number>;
+  let byHour = measureBy(cube, 'hour', 'units', { ...filter, weekdays: [weekday] });
+  if (byHour.size === 0) byHour = measureBy(cube, 'hour', 'units', filter);
+  byHour.forEach((units, hour) => { weights[timeOfDay(parseInt(hour))] += units; });
+  return weights;
+}
+
+// Builds the prep sheet for a day after the data ends. filter may narrow it
+// to some products and/or locations.
+export function buildPrepSheet(
+  cube: SalesCube,
+  date: string,
+  serviceLevel: number = DEFAULT_SERVICE_LEVEL,
+  filter: Pick<CubeFilter, 'products' | 'locations'> = {}
+): PrepSheet | null {
+  if (!cube.lastDay) return null;
+  const lastDay = cube.lastDay;
+  const daysAhead = daysBetween(lastDay, date);
+  const weekday = parseDayKey(date).getDay();
+  const z = SERVICE_LEVEL_Z[serviceLevel];
+  console.log(`Building prep sheet for ${date} (${daysAhead} days after ${lastDay}) at ${serviceLevel}% service level`);
+
+  const patternFrom = daysBefore(lastDay, PATTERN_WEEKS * 7 - 1);
+  const activeFrom = daysBefore(lastDay, ACTIVE_WEEKS * 7 - 1);
+  const weekdayCount = enumeratePeriods(patternFrom > cube.firstDay! ? patternFrom : cube.firstDay!, lastDay, 'day')
+    .filter(day => parseDayKey(day).getDay() === weekday).length;
+  const recentUnits = measureByPair(cube, 'location', 'product', 'units', { ...filter, from: activeFrom });
+
+  const locations = (filter.locations || cube.locations).flatMap(location => {
+    const lines = (filter.products || cube.products).flatMap(product => {
+      if (!recentUnits.get(location)?.get(product)) return [];
+      const pair: CubeFilter = { products: [product], locations: [location] };
+      const forecast = forecastUnits(cube, daysAhead, pair, { backtest: false });
+      if (!forecast) return [];
+
+      const point = forecast.daily[daysAhead - 1];
+      const baseUnits = Math.round(point.forecast);
+      const safetyStock = Math.round(z * point.stdDev);
+      const prepUnits = baseUnits + safetyStock;
+
+      const sameWeekday = measureBy(cube, 'day', 'units', { ...pair, from: patternFrom, weekdays: [weekday] });
+      const weekdayTotal = Array.from(sameWeekday.values()).reduce((sum, units) => sum + units, 0);
+
+      const line: PrepLine = {
+        product,
+        location,
+        forecastUnits: round1(point.forecast),
+        lower80: round1(point.lower80),
+        upper80: round1(point.upper80),
+        stdDev: round1(point.stdDev),
+        safetyStock,
+        prepUnits,
+        weekdayAverage: weekdayCount > 0 ? round1(weekdayTotal / weekdayCount) : 0,
+        byTimeOfDay: splitUnits(prepUnits, timeOfDayWeights(cube, { ...pair, from: patternFrom }, weekday))
+      };
+      return [line];
+    });
+    if (lines.length === 0) return [];
+
+    lines.sort((a, b) => b.prepUnits - a.prepUnits || a.product.localeCompare(b.product));
+    return [{
+      location,
+      forecastUnits: round1(lines.reduce((sum, line) => sum + line.forecastUnits, 0)),
+      prepUnits: lines.reduce((sum, line) => sum + line.prepUnits, 0),
+      lines
+    }];
+  });
+
+  return {
+    date,
+    weekday: WEEKDAY_NAMES[weekday],
+    lastDataDay: lastDay,
+    daysAhead,
+    serviceLevel,
+    locations
+  };
+}
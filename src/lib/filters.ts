@@ -0,0 +1,21 @@
+import type { CubeFilter } from '@/lib/cube';
+
+// Shared ?product=&location=&discountCode= handling. Each parameter may be
+// repeated to select several values; discountCode=none matches sales
+// without a code.
+
+export const NO_DISCOUNT_CODE = 'none';
+
+export function parseDimensionFilter(searchParams: URLSearchParams): CubeFilter {
+  const values = (name: string) => searchParams.getAll(name).map(v => v.trim()).filter(Boolean);
+
+  const products = values('product');
+  const locations = values('location');
+  const discountCodes = values('discountCode').map(code => code === NO_DISCOUNT_CODE ? '' : code);
+
+  return {
+    ...(products.length > 0 && { products }),
+    ...(locations.length > 0 && { locations }),
+    ...(discountCodes.length > 0 && { discountCodes })
+  };
+}
@@ -0,0 +1,21 @@
+// Small in-memory sales fixture used by the memory data source.
+// Rows follow the same column layout as the Google Sheet (header row first).
+
+export const SAMPLE_SALES_DATA: string[][] = [
+  ['Transaction_ID', 'Purchase_Date', 'Customer_ID', 'Store_Location', 'Product_Name', 'Unit_Price', 'Quantity', 'Discount_Code_Used', 'Line_Total'],
+  ['T1001', '2024-10-03 08:15:22', 'C101', 'Downtown', 'Protein Acai Bowl', '12.99', '1', '', '12.99'],
+  ['T1002', '2024-10-05 12:41:09', 'C102', 'Uptown', 'Green Smoothie', '8.49', '2', '', '16.98'],
+  ['T1003', '2024-10-12 17:03:51', 'C103', 'Midtown', 'Protein Acai Bowl', '12.99', '1', 'FALL10', '11.69'],
+  ['T1004', '2024-10-19 09:27:44', 'C101', 'Downtown', 'Berry Blast Smoothie', '7.99', '1', '', '7.99'],
+  ['T1005', '2024-10-26 13:12:30', 'C104', 'Uptown', 'Avocado Toast', '9.50', '2', '', '19.00'],
+  ['T1006', '2024-11-02 08:48:17', 'C105', 'Midtown', 'Green Smoothie', '8.49', '1', '', '8.49'],
+  ['T1007', '2024-11-08 11:59:03', 'C102', 'Uptown', 'Protein Acai Bowl', '13.49', '1', '', '13.49'],
+  ['T1008', '2024-11-15 18:22:40', 'C106', 'Downtown', 'Avocado Toast', '9.50', '1', 'WELCOME5', '9.03'],
+  ['T1009', '2024-11-21 10:05:11', 'C103', 'Midtown', 'Berry Blast Smoothie', '7.99', '3', '', '23.97'],
+  ['T1010', '2024-11-29 14:36:58', 'C107', 'Downtown', 'Protein Acai Bowl', '13.49', '2', '', '26.98'],
+  ['T1011', '2024-12-04 07:52:26', 'C101', 'Downtown', 'Green Smoothie', '8.49', '1', '', '8.49'],
+  ['T1012', '2024-12-10 12:18:47', 'C108', 'Uptown', 'Avocado Toast', '9.99', '1', '', '9.99'],
+  ['T1013', '2024-12-14 16:40:15', 'C104', 'Midtown', 'Protein Acai Bowl', '13.49', '1', 'HOLIDAY15', '11.47'],
+  ['T1014', '2024-12-20 09:09:33', 'C105', 'Uptown', 'Berry Blast Smoothie', '7.99', '2', '', '15.98'],
+  ['T1015', '2024-12-28 19:26:02', 'C109', 'Downtown', 'Protein Acai Bowl', '13.49', '1', '', '13.49'],
+];
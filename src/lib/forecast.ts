@@ -0,0 +1,380 @@
+import type { CubeFilter, CubeMeasures, SalesCube } from '@/lib/cube';
+import { measureBy } from '@/lib/cube';
+import { addDays, enumeratePeriods, parseDayKey, toDayKey } from '@/lib/periods';
+
+// Daily revenue (or unit) forecasting. Yearly seasonality is divided out as a
+// month-of-year index, then an additive Holt-Winters model (damped trend plus
+// day-of-week season) is fitted to what's left. Prediction intervals come
+// from simulating sample paths with the model's own one-step errors, so days
+// and months get consistent ranges without assuming errors are normal.
+
+export interface ForecastPoint {
+  period: string;        // YYYY-MM-DD or YYYY-MM
+  forecast: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+  stdDev: number;        // spread of the simulated outcomes
+  actualToDate?: number; // months already partly in the data: the amount so far, included in the numbers above
+}
+
+export interface BacktestResult {
+  from: string;
+  to: string;
+  days: number;
+  mae: number;               // mean absolute daily error, in the series' units ($ for revenue)
+  mape: number | null;       // mean absolute % error over days with sales
+  totalError: number | null; // % error of the whole holdout period's total
+  coverage80: number;        // % of days that landed inside the 80% interval
+}
+
+export interface HoltWintersParams {
+  alpha: number; // level smoothing
+  beta: number;  // trend smoothing
+  gamma: number; // weekday season smoothing
+  phi: number;   // trend damping
+}
+
+export interface SeriesForecast {
+  daily: ForecastPoint[];
+  monthly: ForecastPoint[];
+  backtest: BacktestResult | null;
+  params: HoltWintersParams;
+  yearlySeasonality: boolean;
+}
+
+export type ForecastMeasure = keyof Pick<CubeMeasures, 'revenue' | 'units'>;
+
+export interface ForecastOptions {
+  seed?: number;      // sample paths, default 1
+  backtest?: boolean; // refit on held-out weeks to score the model, default true
+}
+
+const SEASON_LENGTH = 7;
+const MIN_HISTORY_DAYS = SEASON_LENGTH * 4;
+const MAX_BACKTEST_DAYS = 28;
+const SAMPLE_PATHS = 500;
+
+// Searched on one-step-ahead squared error; small enough to fit every product
+const PARAM_GRID = {
+  alpha: [0.05, 0.1, 0.2, 0.3, 0.5],
+  beta: [0, 0.02, 0.1],
+  gamma: [0.05, 0.1, 0.2, 0.3],
+  phi: [0.9, 0.98]
+};
+
+interface ModelState {
+  level: number;
+  trend: number;
+  season: number[]; // indexed by position in the series mod 7
+}
+
+interface FittedModel {
+  params: HoltWintersParams;
+  state: ModelState;
+  residuals: number[];
+  sse: number;
+  length: number;   // observations fitted; the next one is at this index
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Deterministic PRNG (mulberry32) so the same data gives the same intervals
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Revenue (or units) per day from the first to the last day of data, zero-filled
+export function dailySeries(
+  cube: SalesCube,
+  filter: CubeFilter = {},
+  measure: ForecastMeasure = 'revenue'
+): { days: string[]; values: number[] } {
+  if (!cube.firstDay || !cube.lastDay) return { days: [], values: [] };
+  const byDay = measureBy(cube, 'day', measure, filter);
+  const days = enumeratePeriods(cube.firstDay, cube.lastDay, 'day');
+  return { days, values: days.map(day => byDay.get(day) || 0) };
+}
+
+// Month-of-year index (1 = a typical month). Each month's daily average is
+// compared with the average of the 12 months around it, so growth over the
+// period isn't mistaken for seasonality. Null with under a year of data.
+function yearlyFactors(days: string[], values: number[]): number[] | null {
+  if (days.length < 365) return null;
+
+  const months: { key: string; total: number; count: number }[] = [];
+  days.forEach((day, i) => {
+    const key = day.slice(0, 7);
+    const last = months[months.length - 1];
+    if (last && last.key === key) {
+      last.total += values[i];
+      last.count++;
+    } else {
+      months.push({ key, total: values[i], count: 1 });
+    }
+  });
+  if (months.length < 12) return null;
+
+  const averages = months.map(month => month.total / month.count);
+  const ratios: number[][] = Array.from({ length: 12 }, () => []);
+  averages.forEach((average, i) => {
+    const start = Math.min(Math.max(0, i - 6), averages.length - 12);
+    const baseline = averages.slice(start, start + 12).reduce((sum, value) => sum + value, 0) / 12;
+    if (baseline > 0) ratios[parseInt(months[i].key.slice(5)) - 1].push(average / baseline);
+  });
+
+  const factors = ratios.map(list => list.length > 0 ? list.reduce((sum, value) => sum + value, 0) / list.length : 1);
+  const mean = factors.reduce((sum, value) => sum + value, 0) / 12;
+  if (mean === 0) return null;
+  // Floor keeps near-empty months from blowing up the deseasonalized series
+  return factors.map(factor => Math.max(0.1, factor / mean));
+}
+
+const factorFor = (factors: number[] | null, day: string) => factors ? factors[parseInt(day.slice(5, 7)) - 1] : 1;
+
+// One Holt-Winters update; returns the one-step forecast made before seeing value
+function step(state: ModelState, params: HoltWintersParams, index: number, value: number): number {
+  const slot = index % SEASON_LENGTH;
+  const predicted = state.level + params.phi * state.trend + state.season[slot];
+  const level = params.alpha * (value - state.season[slot]) + (1 - params.alpha) * (state.level + params.phi * state.trend);
+  state.trend = params.beta * (level - state.level) + (1 - params.beta) * params.phi * state.trend;
+  state.season[slot] = params.gamma * (value - level) + (1 - params.gamma) * state.season[slot];
+  state.level = level;
+  return predicted;
+}
+
+function fitWithParams(values: number[], params: HoltWintersParams): FittedModel {
+  // Start from the first two weeks: level from week one, trend from the
+  // week-over-week change, season from week one's deviations
+  const week1 = values.slice(0, SEASON_LENGTH);
+  const week2 = values.slice(SEASON_LENGTH, SEASON_LENGTH * 2);
+  const mean1 = week1.reduce((sum, value) => sum + value, 0) / SEASON_LENGTH;
+  const mean2 = week2.reduce((sum, value) => sum + value, 0) / SEASON_LENGTH;
+  const state: ModelState = {
+    level: mean1,
+    trend: (mean2 - mean1) / SEASON_LENGTH,
+    season: week1.map(value => value - mean1)
+  };
+
+  const residuals: number[] = [];
+  let sse = 0;
+  values.forEach((value, index) => {
+    const error = value - step(state, params, index, value);
+    // The first two weeks only warm the model up
+    if (index >= SEASON_LENGTH * 2) {
+      residuals.push(error);
+      sse += error * error;
+    }
+  });
+  return { params, state, residuals, sse, length: values.length };
+}
+
+function fitHoltWinters(values: number[]): FittedModel {
+  let best: FittedModel | null = null;
+  for (const alpha of PARAM_GRID.alpha) {
+    for (const beta of PARAM_GRID.beta) {
+      for (const gamma of PARAM_GRID.gamma) {
+        for (const phi of PARAM_GRID.phi) {
+          const model = fitWithParams(values, { alpha, beta, gamma, phi });
+          if (!best || model.sse < best.sse) best = model;
+        }
+      }
+    }
+  }
+  return best!;
+}
+
+// Point forecast plus SAMPLE_PATHS simulated futures, on the original scale
+function simulate(model: FittedModel, days: string[], factors: number[] | null, seed: number): { points: number[]; paths: number[][] } {
+  const { params, state } = model;
+  let damping = 0;
+  const points = days.map((day, h) => {
+    damping += Math.pow(params.phi, h + 1);
+    const value = state.level + damping * state.trend + state.season[(model.length + h) % SEASON_LENGTH];
+    return Math.max(0, value * factorFor(factors, day));
+  });
+
+  const random = createRandom(seed);
+  const residuals = model.residuals.length > 0 ? model.residuals : [0];
+  const paths = Array.from({ length: SAMPLE_PATHS }, () => {
+    const pathState: ModelState = { ...state, season: [...state.season] };
+    return days.map((day, h) => {
+      const index = model.length + h;
+      const predicted = pathState.level + params.phi * pathState.trend + pathState.season[index % SEASON_LENGTH];
+      const value = predicted + residuals[Math.floor(random() * residuals.length)];
+      step(pathState, params, index, value);
+      return Math.max(0, value * factorFor(factors, day));
+    });
+  });
+  return { points, paths };
+}
+
+function toPoint(period: string, forecast: number, samples: number[], actualToDate = 0): ForecastPoint {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+  const variance = samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples.length;
+  const point: ForecastPoint = {
+    period,
+    forecast: round2(actualToDate + forecast),
+    // Keep the point inside its interval even when the samples are skewed
+    lower80: round2(actualToDate + Math.min(forecast, quantile(sorted, 0.1))),
+    upper80: round2(actualToDate + Math.max(forecast, quantile(sorted, 0.9))),
+    lower95: round2(actualToDate + Math.min(forecast, quantile(sorted, 0.025))),
+    upper95: round2(actualToDate + Math.max(forecast, quantile(sorted, 0.975))),
+    stdDev: round2(Math.sqrt(variance))
+  };
+  if (actualToDate > 0) point.actualToDate = round2(actualToDate);
+  return point;
+}
+
+// Fits the history and forecasts the given future days
+function forecastDays(history: { days: string[]; values: number[] }, futureDays: string[], seed: number) {
+  const factors = yearlyFactors(history.days, history.values);
+  const adjusted = history.values.map((value, i) => value / factorFor(factors, history.days[i]));
+  const model = fitHoltWinters(adjusted);
+  return { model, factors, ...simulate(model, futureDays, factors, seed) };
+}
+
+// Refits on all but the last few weeks and scores the forecast of those weeks
+function backtest(history: { days: string[]; values: number[] }, seed: number): BacktestResult | null {
+  const holdout = Math.min(MAX_BACKTEST_DAYS, Math.floor(history.days.length / 5));
+  if (history.days.length - holdout < MIN_HISTORY_DAYS || holdout < SEASON_LENGTH) return null;
+
+  const split = history.days.length - holdout;
+  const training = { days: history.days.slice(0, split), values: history.values.slice(0, split) };
+  const testDays = history.days.slice(split);
+  const actuals = history.values.slice(split);
+  const { points, paths } = forecastDays(training, testDays, seed);
+
+  let absoluteError = 0;
+  let percentError = 0;
+  let percentDays = 0;
+  let covered = 0;
+  actuals.forEach((actual, i) => {
+    absoluteError += Math.abs(actual - points[i]);
+    if (actual > 0) {
+      percentError += Math.abs(actual - points[i]) / actual;
+      percentDays++;
+    }
+    const sorted = paths.map(path => path[i]).sort((a, b) => a - b);
+    if (actual >= Math.min(points[i], quantile(sorted, 0.1)) && actual <= Math.max(points[i], quantile(sorted, 0.9))) covered++;
+  });
+
+  const actualTotal = actuals.reduce((sum, value) => sum + value, 0);
+  const forecastTotal = points.reduce((sum, value) => sum + value, 0);
+  return {
+    from: testDays[0],
+    to: testDays[testDays.length - 1],
+    days: holdout,
+    mae: round2(absoluteError / holdout),
+    mape: percentDays > 0 ? round2((percentError / percentDays) * 100) : null,
+    totalError: actualTotal > 0 ? round2(((forecastTotal - actualTotal) / actualTotal) * 100) : null,
+    coverage80: round2((covered / holdout) * 100)
+  };
+}
+
+// Forecasts revenue for the horizonDays after the last day of data. Null
+// when the filtered history is too short to fit a weekly pattern.
+export function forecastRevenue(
+  cube: SalesCube,
+  horizonDays: number,
+  filter: CubeFilter = {},
+  options: ForecastOptions = {}
+): SeriesForecast | null {
+  return forecastMeasure(cube, 'revenue', horizonDays, filter, options);
+}
+
+// Same model on units sold (the Quantity column), for demand planning
+export function forecastUnits(
+  cube: SalesCube,
+  horizonDays: number,
+  filter: CubeFilter = {},
+  options: ForecastOptions = {}
+): SeriesForecast | null {
+  return forecastMeasure(cube, 'units', horizonDays, filter, options);
+}
+
+// Skipping the backtest saves a second model fit, for callers that fit many
+// small series and never show the score
+function forecastMeasure(
+  cube: SalesCube,
+  measure: ForecastMeasure,
+  horizonDays: number,
+  filter: CubeFilter,
+  { seed = 1, backtest: withBacktest = true }: ForecastOptions
+): SeriesForecast | null {
+  const history = dailySeries(cube, filter, measure);
+  if (history.days.length < MIN_HISTORY_DAYS || !history.values.some(value => value > 0)) return null;
+
+  const start = addDays(parseDayKey(history.days[history.days.length - 1]), 1);
+  const futureDays = Array.from({ length: horizonDays }, (_, i) => toDayKey(addDays(start, i)));
+  const { model, factors, points, paths } = forecastDays(history, futureDays, seed);
+
+  const daily = futureDays.map((day, i) => toPoint(day, points[i], paths.map(path => path[i])));
+
+  // Monthly totals sum each sample path, so the intervals reflect how daily
+  // errors carry over; a month already under way starts from its actuals
+  const monthIndexes = new Map<string, number[]>();
+  futureDays.forEach((day, i) => {
+    const month = day.slice(0, 7);
+    if (!monthIndexes.has(month)) monthIndexes.set(month, []);
+    monthIndexes.get(month)!.push(i);
+  });
+  const monthly = Array.from(monthIndexes.entries()).map(([month, indexes]) => {
+    const actualToDate = history.days.reduce((sum, day, i) => day.startsWith(month) ? sum + history.values[i] : sum, 0);
+    return toPoint(
+      month,
+      indexes.reduce((sum, i) => sum + points[i], 0),
+      paths.map(path => indexes.reduce((sum, i) => sum + path[i], 0)),
+      actualToDate
+    );
+  });
+
+  return {
+    daily,
+    monthly,
+    backtest: withBacktest ? backtest(history, seed) : null,
+    params: model.params,
+    yearlySeasonality: factors !== null
+  };
+}
+
+export interface RevenueForecast {
+  total: SeriesForecast;
+  products: (SeriesForecast & { product: string })[];
+  locations: (SeriesForecast & { location: string })[];
+}
+
+// Company total plus one model per product and per location, each fitted on
+// its own history (within any filter), so breakdowns carry their own intervals
+export function forecastRevenueBreakdown(cube: SalesCube, horizonDays: number, filter: CubeFilter = {}): RevenueForecast | null {
+  console.log(`Forecasting ${horizonDays} days of revenue from ${cube.lastDay}`);
+  const total = forecastRevenue(cube, horizonDays, filter);
+  if (!total) return null;
+
+  const products = (filter.products || cube.products).flatMap(product => {
+    const forecast = forecastRevenue(cube, horizonDays, { ...filter, products: [product] });
+    return forecast ? [{ product, ...forecast }] : [];
+  });
+  const locations = (filter.locations || cube.locations).flatMap(location => {
+    const forecast = forecastRevenue(cube, horizonDays, { ...filter, locations: [location] });
+    return forecast ? [{ location, ...forecast }] : [];
+  });
+
+  return { total, products, locations };
+}
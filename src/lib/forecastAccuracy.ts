@@ -0,0 +1,183 @@
+import type { SalesCube } from '@/lib/cube';
+import { measureBy, measureByPair } from '@/lib/cube';
+import { daysBetween, formatPeriodLabel } from '@/lib/periods';
+import type { ForecastPoint } from '@/lib/forecast';
+import type { ForecastSnapshot, ForecastSnapshotSeries } from '@/lib/forecastSnapshots';
+
+// Scores saved forecasts against the actuals that have arrived since. Runs
+// on every request, so new data is compared as soon as it's loaded.
+
+export interface AccuracyStats {
+  points: number;          // forecast days with actuals
+  mae: number;             // mean absolute daily error, $
+  mape: number | null;     // over days with sales
+  bias: number;            // mean forecast - actual; positive = forecasts run high
+  coverage80: number;      // % of actuals inside the 80% interval
+  coverage95: number;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: string;
+  datasetVersion: number;
+  lastDay: string;
+  horizonDays: number;
+  accuracy: AccuracyStats | null; // company total, null until actuals arrive
+}
+
+export interface OverlayPoint extends ForecastPoint {
+  date: string;            // chart label, same format as the graphs trend
+  actual: number | null;   // null for periods not in the data yet
+  snapshotId: string;      // which saved forecast the band comes from
+}
+
+export interface ForecastAccuracyReport {
+  snapshots: SnapshotSummary[];
+  overall: AccuracyStats | null;
+  byHorizon: (AccuracyStats & { horizon: string })[];
+  byProduct: (AccuracyStats & { product: string })[];
+  byLocation: (AccuracyStats & { location: string })[];
+  overlay: { daily: OverlayPoint[]; monthly: OverlayPoint[] };
+}
+
+// Days ahead of the snapshot's last day of data
+const HORIZON_BUCKETS = [
+  { label: '1-7 days', max: 7 },
+  { label: '8-14 days', max: 14 },
+  { label: '15-30 days', max: 30 },
+  { label: '31-90 days', max: 90 },
+  { label: '91+ days', max: Infinity }
+];
+
+interface Scored {
+  horizon: number;
+  forecast: number;
+  actual: number;
+  point: ForecastPoint;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function summarize(scored: Scored[]): AccuracyStats | null {
+  if (scored.length === 0) return null;
+  let absolute = 0;
+  let percent = 0;
+  let percentDays = 0;
+  let bias = 0;
+  let in80 = 0;
+  let in95 = 0;
+  scored.forEach(({ forecast, actual, point }) => {
+    absolute += Math.abs(forecast - actual);
+    bias += forecast - actual;
+    if (actual > 0) {
+      percent += Math.abs(forecast - actual) / actual;
+      percentDays++;
+    }
+    if (actual >= point.lower80 && actual <= point.upper80) in80++;
+    if (actual >= point.lower95 && actual <= point.upper95) in95++;
+  });
+  return {
+    points: scored.length,
+    mae: round2(absolute / scored.length),
+    mape: percentDays > 0 ? round2((percent / percentDays) * 100) : null,
+    bias: round2(bias / scored.length),
+    coverage80: round2((in80 / scored.length) * 100),
+    coverage95: round2((in95 / scored.length) * 100)
+  };
+}
+
+// Forecast days of one series that now have actuals
+function scoreSeries(snapshot: ForecastSnapshot, series: ForecastSnapshotSeries | undefined, actuals: Map<string, number> | undefined, cube: SalesCube): Scored[] {
+  if (!series || !cube.lastDay) return [];
+  return series.daily
+    .filter(point => point.period > snapshot.lastDay && point.period <= cube.lastDay!)
+    .map(point => ({
+      horizon: daysBetween(snapshot.lastDay, point.period),
+      forecast: point.forecast,
+      actual: actuals?.get(point.period) || 0,
+      point
+    }));
+}
+
+// For each period, the newest forecast made before it started (what we
+// expected going in); periods no saved forecast preceded use the newest one
+// that covers them, which is also where the future band comes from
+function buildOverlay(
+  snapshots: ForecastSnapshot[],
+  granularity: 'daily' | 'monthly',
+  actuals: Map<string, number>,
+  lastDay: string
+): OverlayPoint[] {
+  const chosen = new Map<string, { point: ForecastPoint; snapshot: ForecastSnapshot; before: boolean }>();
+  snapshots.forEach(snapshot => {
+    snapshot.total[granularity].forEach(point => {
+      const start = granularity === 'daily' ? point.period : `${point.period}-01`;
+      const before = snapshot.lastDay < start;
+      const current = chosen.get(point.period);
+      // Snapshots are oldest first, so later ones win within the same kind
+      if (!current || before || !current.before) {
+        chosen.set(point.period, { point, snapshot, before });
+      }
+    });
+  });
+
+  const lastPeriod = granularity === 'daily' ? lastDay : lastDay.slice(0, 7);
+  return Array.from(chosen.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, { point, snapshot }]) => ({
+      ...point,
+      date: formatPeriodLabel(period, granularity === 'daily' ? 'day' : 'month'),
+      actual: period <= lastPeriod ? round2(actuals.get(period) || 0) : null,
+      snapshotId: snapshot.id
+    }));
+}
+
+export function evaluateForecasts(snapshots: ForecastSnapshot[], cube: SalesCube): ForecastAccuracyReport {
+  const totalActuals = measureBy(cube, 'day');
+  const productActuals = measureByPair(cube, 'product', 'day');
+  const locationActuals = measureByPair(cube, 'location', 'day');
+
+  const totalScored = snapshots.map(snapshot => scoreSeries(snapshot, snapshot.total, totalActuals, cube));
+  const allTotal = totalScored.flat();
+
+  const byHorizon = HORIZON_BUCKETS.flatMap((bucket, i) => {
+    const min = i === 0 ? 1 : HORIZON_BUCKETS[i - 1].max + 1;
+    const stats = summarize(allTotal.filter(s => s.horizon >= min && s.horizon <= bucket.max));
+    return stats ? [{ horizon: bucket.label, ...stats }] : [];
+  });
+
+  const names = (key: 'products' | 'locations') =>
+    Array.from(new Set(snapshots.flatMap(snapshot => Object.keys(snapshot[key])))).sort();
+
+  const byProduct = names('products').flatMap(product => {
+    const stats = summarize(snapshots.flatMap(snapshot =>
+      scoreSeries(snapshot, snapshot.products[product], productActuals.get(product), cube)));
+    return stats ? [{ product, ...stats }] : [];
+  });
+  const byLocation = names('locations').flatMap(location => {
+    const stats = summarize(snapshots.flatMap(snapshot =>
+      scoreSeries(snapshot, snapshot.locations[location], locationActuals.get(location), cube)));
+    return stats ? [{ location, ...stats }] : [];
+  });
+
+  return {
+    snapshots: snapshots.map((snapshot, i) => ({
+      id: snapshot.id,
+      createdAt: snapshot.createdAt,
+      datasetVersion: snapshot.dataset.version,
+      lastDay: snapshot.lastDay,
+      horizonDays: snapshot.horizonDays,
+      accuracy: summarize(totalScored[i])
+    })),
+    overall: summarize(allTotal),
+    byHorizon,
+    byProduct,
+    byLocation,
+    overlay: cube.lastDay
+      ? {
+          daily: buildOverlay(snapshots, 'daily', totalActuals, cube.lastDay),
+          monthly: buildOverlay(snapshots, 'monthly', measureBy(cube, 'month'), cube.lastDay)
+        }
+      : { daily: [], monthly: [] }
+  };
+}
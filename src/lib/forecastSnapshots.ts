@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DatasetMeta } from '@/types/data';
+import type { ForecastPoint, RevenueForecast } from '@/lib/forecast';
+
+// Saved copies of revenue forecasts, so they can be scored once the days
+// they cover show up in the data. One snapshot is kept per last day of data
+// (the newest, longest forecast made from it), tagged with the dataset
+// version it was fitted on.
+
+export interface ForecastSnapshotSeries {
+  daily: ForecastPoint[];
+  monthly: ForecastPoint[];
+}
+
+export interface ForecastSnapshot {
+  id: string;        // the last day of data, e.g. '2024-11-20'
+  createdAt: string; // ISO timestamp
+  dataset: {
+    version: number;
+    asOf: string;
+    source: string;
+    rowCount: number;
+  };
+  lastDay: string;   // forecasts start the day after
+  horizonDays: number;
+  total: ForecastSnapshotSeries;
+  products: Record<string, ForecastSnapshotSeries>;
+  locations: Record<string, ForecastSnapshotSeries>;
+}
+
+const DEFAULT_SNAPSHOT_PATH = './data/forecast-snapshots.json';
+const MAX_SNAPSHOTS = 60;
+
+function snapshotPath(): string {
+  return path.resolve(process.cwd(), process.env.FORECAST_SNAPSHOT_PATH || DEFAULT_SNAPSHOT_PATH);
+}
+
+// Oldest first
+export async function loadForecastSnapshots(): Promise<ForecastSnapshot[]> {
+  try {
+    return JSON.parse(await fs.readFile(snapshotPath(), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []; // Nothing saved yet
+    throw error;
+  }
+}
+
+const toSeries = ({ daily, monthly }: ForecastSnapshotSeries): ForecastSnapshotSeries => ({ daily, monthly });
+
+// Writes are serialized so concurrent requests can't drop each other's snapshot
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Saves the forecast unless one at least as long was already made from the
+// same last day of data. Resolves to the snapshot now on file for that day.
+export function saveForecastSnapshot(
+  forecast: RevenueForecast,
+  meta: DatasetMeta,
+  lastDay: string,
+  horizonDays: number
+): Promise<ForecastSnapshot> {
+  const task = writeQueue.then(async () => {
+    const snapshots = await loadForecastSnapshots();
+    const existing = snapshots.find(snapshot => snapshot.id === lastDay);
+    if (existing && existing.horizonDays >= horizonDays) return existing;
+
+    const snapshot: ForecastSnapshot = {
+      id: lastDay,
+      createdAt: new Date().toISOString(),
+      dataset: { version: meta.version, asOf: meta.asOf, source: meta.source, rowCount: meta.rowCount },
+      lastDay,
+      horizonDays,
+      total: toSeries(forecast.total),
+      products: Object.fromEntries(forecast.products.map(series => [series.product, toSeries(series)])),
+      locations: Object.fromEntries(forecast.locations.map(series => [series.location, toSeries(series)]))
+    };
+
+    const kept = [...snapshots.filter(s => s.id !== lastDay), snapshot]
+      .sort((a, b) => a.lastDay.localeCompare(b.lastDay))
+      .slice(-MAX_SNAPSHOTS);
+
+    const file = snapshotPath();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write to a temp file and rename so readers never see a partial file
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(kept));
+    await fs.rename(`${file}.tmp`, file);
+
+    console.log(`Saved ${horizonDays}-day forecast snapshot from ${lastDay} (dataset v${meta.version})`);
+    return snapshot;
+  });
+
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
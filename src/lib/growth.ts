@@ -0,0 +1,131 @@
+import type { SalesCube } from '@/lib/cube';
+import { measureBy } from '@/lib/cube';
+
+// Month-over-month growth helpers shared by the recommendations route and
+// the drill-down values endpoint, so a card and its numbers always agree.
+
+export interface GrowthResult {
+  growth: number; // fractional change, e.g. -0.12 for a 12% drop
+  currentMonth: string;
+  previousMonth: string;
+  currentValue: number;
+  previousValue: number;
+}
+
+// Compares the two most recent months in a YYYY-MM -> value series
+export function calculateGrowth(monthlyData: Map<string, number>): GrowthResult | null {
+  const sortedMonths = Array.from(monthlyData.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]));
+  
+  if (sortedMonths.length < 2) return null;
+  
+  const currentMonth = sortedMonths[sortedMonths.length - 1];
+  const previousMonth = sortedMonths[sortedMonths.length - 2];
+  
+  const growth = (currentMonth[1] - previousMonth[1]) / previousMonth[1];
+  
+  return {
+    growth,
+    currentMonth: currentMonth[0],
+    previousMonth: previousMonth[0],
+    currentValue: currentMonth[1],
+    previousValue: previousMonth[1]
+  };
+}
+
+// Looks up the same pair of months one year earlier, if the data covers them
+export function analyzeSeasonality(monthlyData: Map<string, number>, currentMonthPair: [string, number], previousMonthPair: [string, number]): {
+  isSeasonal: boolean;
+  previousYearChange?: { 
+    startValue: number;
+    endValue: number;
+    percentChange: number;
+    startMonth: string;
+    endMonth: string;
+  };
+} {
+  // Same month keys one year earlier (keys are compared as text so the
+  // local timezone can't shift a month boundary)
+  const yearEarlier = (monthKey: string) => {
+    const [year, month] = monthKey.split('-');
+    return `${parseInt(year) - 1}-${month}`;
+  };
+  const lastYearCurrentKey = yearEarlier(currentMonthPair[0]);
+  const lastYearPreviousKey = yearEarlier(previousMonthPair[0]);
+
+  const lastYearCurrent = monthlyData.get(lastYearCurrentKey);
+  const lastYearPrevious = monthlyData.get(lastYearPreviousKey);
+
+  if (lastYearCurrent !== undefined && lastYearPrevious) {
+    const percentChange = ((lastYearCurrent - lastYearPrevious) / lastYearPrevious) * 100;
+    return {
+      isSeasonal: true,
+      previousYearChange: {
+        startValue: lastYearPrevious,
+        endValue: lastYearCurrent,
+        percentChange,
+        startMonth: lastYearPreviousKey,
+        endMonth: lastYearCurrentKey
+      }
+    };
+  }
+
+  return { isSeasonal: false };
+}
+
+export interface SeasonalComparison {
+  expectedChange: number; // % change over the same two months last year
+  actualChange: number;   // % change this year
+  adjustedChange: number; // % this year's latest month is above/below the seasonal expectation
+  expectedValue: number;  // previous month scaled by last year's change
+  lastYearStart: string;
+  lastYearEnd: string;
+}
+
+// Judges a month-over-month change against the same change a year earlier:
+// a December dip that happens every December shows as ~0% adjusted change.
+// Null when the data doesn't reach back far enough to say.
+export function compareWithLastYear(monthlyData: Map<string, number>, growth: GrowthResult): SeasonalComparison | null {
+  if (growth.previousValue === 0) return null;
+
+  const { previousYearChange } = analyzeSeasonality(
+    monthlyData,
+    [growth.currentMonth, growth.currentValue],
+    [growth.previousMonth, growth.previousValue]
+  );
+  if (!previousYearChange) return null;
+
+  const expectedValue = growth.previousValue * (1 + previousYearChange.percentChange / 100);
+  return {
+    expectedChange: previousYearChange.percentChange,
+    actualChange: growth.growth * 100,
+    adjustedChange: expectedValue > 0 ? ((growth.currentValue - expectedValue) / expectedValue) * 100 : 0,
+    expectedValue,
+    lastYearStart: previousYearChange.startMonth,
+    lastYearEnd: previousYearChange.endMonth
+  };
+}
+
+export type RecommendationTargetType = 'store' | 'product';
+
+// Monthly revenue series behind a recommendation. Products use the months
+// they sold in; stores are compared across every month in the dataset, with
+// months the store had no sales counted as $0.
+export function getMonthlySeries(
+  cube: SalesCube,
+  type: RecommendationTargetType,
+  target: string
+): Map<string, number> | null {
+  if (type === 'product') {
+    if (!cube.products.includes(target)) return null;
+    return measureBy(cube, 'month', 'revenue', { products: [target] });
+  }
+
+  if (!cube.locations.includes(target)) return null;
+  const storeRevenue = measureBy(cube, 'month', 'revenue', { locations: [target] });
+  const series = new Map<string, number>();
+  measureBy(cube, 'month').forEach((_, month) => {
+    series.set(month, storeRevenue.get(month) || 0);
+  });
+  return series;
+}
@@ -0,0 +1,66 @@
+import type { SalesCube, CubeFilter } from '@/lib/cube';
+import { queryCube, customersBy, firstPurchaseDays } from '@/lib/cube';
+import { enumeratePeriods, formatPeriodLabel, periodStart, toDayKey } from '@/lib/periods';
+import type { Granularity } from '@/lib/periods';
+
+// Per-period KPI series beyond revenue: order value, basket size and
+// customer counts, all derived from Transaction_ID and Customer_ID.
+
+export const METRICS = ['revenue', 'aov', 'units', 'itemsPerOrder', 'customers'] as const;
+export type Metric = typeof METRICS[number];
+
+export interface MetricPoint {
+  date: string;   // display label
+  period: string; // period key
+  revenue: number;
+  orders: number;
+  units: number;
+  aov: number;           // revenue / orders
+  itemsPerOrder: number; // units / orders
+  customers: number;     // distinct Customer_IDs
+  newCustomers: number;  // first purchase in the dataset falls in this period
+  returningCustomers: number;
+}
+
+export function generateMetricSeries(
+  cube: SalesCube,
+  filter: CubeFilter,
+  granularity: Granularity
+): MetricPoint[] {
+  const from = filter.from || cube.firstDay;
+  const to = filter.to || cube.lastDay;
+  if (!from || !to) return [];
+
+  const measures = new Map(queryCube(cube, [granularity], filter).map(row => [row.key[granularity]!, row]));
+  const customerSets = customersBy(cube, granularity, filter);
+  const firstDays = firstPurchaseDays(cube);
+
+  return enumeratePeriods(from, to, granularity).map(period => {
+    const row = measures.get(period);
+    const revenue = row?.revenue || 0;
+    const orders = row?.orders || 0;
+    const units = row?.units || 0;
+
+    // Customers whose first purchase is on or after the period start are new
+    const start = toDayKey(periodStart(period, granularity));
+    let newCustomers = 0;
+    let returningCustomers = 0;
+    customerSets.get(period)?.forEach(id => {
+      if ((firstDays.get(id) || start) >= start) newCustomers++;
+      else returningCustomers++;
+    });
+
+    return {
+      date: formatPeriodLabel(period, granularity),
+      period,
+      revenue,
+      orders,
+      units,
+      aov: orders > 0 ? revenue / orders : 0,
+      itemsPerOrder: orders > 0 ? units / orders : 0,
+      customers: row?.customers || 0,
+      newCustomers,
+      returningCustomers
+    };
+  });
+}
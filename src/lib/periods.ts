@@ -0,0 +1,136 @@
+// Calendar period helpers shared by the cube, graphs and forecasting code.
+// All keys use local time, matching how the sheet's timestamps are parsed.
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 'YYYY-MM-DD'
+export function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// 'YYYY-MM'
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+// ISO 8601 week, e.g. '2024-W07' (weeks start on Monday; week 1 contains Jan 4th)
+export function toIsoWeekKey(date: Date): string {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const weekday = (thursday.getDay() + 6) % 7; // Monday = 0
+  thursday.setDate(thursday.getDate() - weekday + 3);
+
+  const isoYear = thursday.getFullYear();
+  const firstThursday = new Date(isoYear, 0, 4);
+  firstThursday.setDate(firstThursday.getDate() - ((firstThursday.getDay() + 6) % 7) + 3);
+
+  const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+  return `${isoYear}-W${pad(week)}`;
+}
+
+// Parses a 'YYYY-MM-DD' key (or any date string) to a local-midnight Date
+export function parseDayKey(key: string): Date {
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) {
+    return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  }
+  const date = new Date(key);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Whole days from one day key to another (negative when toDay is earlier)
+export function daysBetween(fromDay: string, toDay: string): number {
+  return Math.round((parseDayKey(toDay).getTime() - parseDayKey(fromDay).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const TIMES_OF_DAY = ['morning', 'afternoon', 'evening', 'night'] as const;
+export type TimeOfDay = typeof TIMES_OF_DAY[number];
+
+// Morning 6 AM-11:59 AM, afternoon 12-4:59 PM, evening 5-8:59 PM, night 9 PM-5:59 AM
+export function timeOfDay(hour: number): TimeOfDay {
+  if (hour >= 6 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+// 'YYYY-Qn'
+export function toQuarterKey(date: Date): string {
+  return `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+}
+
+// 'YYYY'
+export function toYearKey(date: Date): string {
+  return String(date.getFullYear());
+}
+
+export const GRANULARITIES = ['day', 'week', 'month', 'quarter', 'year'] as const;
+export type Granularity = typeof GRANULARITIES[number];
+
+export function toPeriodKey(date: Date, granularity: Granularity): string {
+  switch (granularity) {
+    case 'day': return toDayKey(date);
+    case 'week': return toIsoWeekKey(date);
+    case 'month': return toMonthKey(date);
+    case 'quarter': return toQuarterKey(date);
+    case 'year': return toYearKey(date);
+  }
+}
+
+// Every period key touched by the inclusive day range, in order. Used to
+// gap-fill series so periods without sales show up as zero.
+export function enumeratePeriods(fromDay: string, toDay: string, granularity: Granularity): string[] {
+  const keys: string[] = [];
+  const end = parseDayKey(toDay);
+
+  for (let date = parseDayKey(fromDay); date <= end; date = addDays(date, 1)) {
+    const key = toPeriodKey(date, granularity);
+    if (keys[keys.length - 1] !== key) keys.push(key);
+  }
+  return keys;
+}
+
+// First day of the period a key refers to
+export function periodStart(key: string, granularity: Granularity): Date {
+  switch (granularity) {
+    case 'day':
+      return parseDayKey(key);
+    case 'week': {
+      // Monday of ISO week n is (n - 1) weeks after the Monday of the week containing Jan 4th
+      const [year, week] = key.split('-W').map(Number);
+      const jan4 = new Date(year, 0, 4);
+      return addDays(jan4, -((jan4.getDay() + 6) % 7) + (week - 1) * 7);
+    }
+    case 'month': {
+      const [year, month] = key.split('-').map(Number);
+      return new Date(year, month - 1, 1);
+    }
+    case 'quarter': {
+      const [year, quarter] = key.split('-Q').map(Number);
+      return new Date(year, (quarter - 1) * 3, 1);
+    }
+    case 'year':
+      return new Date(Number(key), 0, 1);
+  }
+}
+
+// Short chart label, e.g. 'Oct 7, 2024', 'Week of Oct 7, 2024', 'Oct 2024', 'Q4 2024', '2024'
+export function formatPeriodLabel(key: string, granularity: Granularity): string {
+  const start = periodStart(key, granularity);
+  const monthName = start.toLocaleString('default', { month: 'short' });
+
+  switch (granularity) {
+    case 'day': return `${monthName} ${start.getDate()}, ${start.getFullYear()}`;
+    case 'week': return `Week of ${monthName} ${start.getDate()}, ${start.getFullYear()}`;
+    case 'month': return `${monthName} ${start.getFullYear()}`;
+    case 'quarter': return key.replace(/^(\d{4})-(Q\d)$/, '$2 $1');
+    case 'year': return key;
+  }
+}
@@ -0,0 +1,178 @@
+import { getSalesCube, daysBefore, measureByPair } from '@/lib/cube';
+import { parseTransactions } from '@/lib/transactions';
+import { daysBetween } from '@/lib/periods';
+
+// What-if pricing for one product: projects a typical week's units and
+// revenue per store at a candidate price. Demand follows the elasticity
+// fitted by analyzePricePerformance (units scale with
+// (candidate / current) ^ -elasticity) from a baseline week averaged over the
+// last BASELINE_WEEKS of data. Ranges combine the elasticity's 80% range with
+// how much weekly volume has varied. Null when no store sold the product in
+// the baseline weeks, since there is nothing to project from.
+
+export interface PriceElasticityFit {
+  elasticity: number;
+  range: { low: number; high: number } | null; // 80%
+  observedRange: { min: number; max: number } | null; // list prices seen in the data
+}
+
+export interface PriceProjection {
+  units: number;
+  unitsLow: number;
+  unitsHigh: number;
+  revenue: number;
+  revenueLow: number;
+  revenueHigh: number;
+}
+
+export interface PriceChange {
+  units: number;
+  revenue: number;
+  revenuePercent: number | null;
+}
+
+export interface StorePriceSimulation {
+  location: string;
+  currentPrice: number;
+  candidatePrice: number;
+  baseline: { units: number; revenue: number }; // average week
+  projected: PriceProjection;                   // a week at the candidate price
+  change: PriceChange;
+  outsideObservedRange: boolean;
+}
+
+export interface PriceSimulation {
+  product: string;
+  baselineWeeks: number;
+  elasticity: number;
+  elasticityRange: { low: number; high: number } | null;
+  observedRange: { min: number; max: number } | null;
+  stores: StorePriceSimulation[];
+  total: {
+    baseline: { units: number; revenue: number };
+    projected: PriceProjection;
+    change: PriceChange;
+  };
+  warnings: string[];
+}
+
+export interface CandidatePrices {
+  price?: number;                       // applies to every store without its own price
+  storePrices?: Record<string, number>; // by location
+}
+
+export const BASELINE_WEEKS = 4;
+const WEEK_Z = 1.282; // 80% range of a single week's volume
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+function changeFrom(baseline: { units: number; revenue: number }, projected: PriceProjection): PriceChange {
+  return {
+    units: round2(projected.units - baseline.units),
+    revenue: round2(projected.revenue - baseline.revenue),
+    revenuePercent: baseline.revenue > 0 ? round2(((projected.revenue - baseline.revenue) / baseline.revenue) * 100) : null
+  };
+}
+
+export function simulatePrice(data: unknown[], product: string, fit: PriceElasticityFit, candidates: CandidatePrices): PriceSimulation | null {
+  const cube = getSalesCube(data);
+  const { transactions } = parseTransactions(data);
+  const warnings: string[] = [];
+
+  // Latest list price at each store
+  const latest = new Map<string, { price: number; at: number }>();
+  transactions.forEach(t => {
+    if (t.productName !== product) return;
+    const current = latest.get(t.storeLocation);
+    if (!current || t.purchaseDate.getTime() >= current.at) {
+      latest.set(t.storeLocation, { price: t.unitPrice, at: t.purchaseDate.getTime() });
+    }
+  });
+
+  const from = cube.lastDay ? daysBefore(cube.lastDay, BASELINE_WEEKS * 7 - 1) : '';
+  const filter = { products: [product], from };
+  const dailyUnits = measureByPair(cube, 'location', 'day', 'units', filter);
+  const dailyRevenue = measureByPair(cube, 'location', 'day', 'revenue', filter);
+
+  const elasticities = fit.range ? [fit.range.low, fit.elasticity, fit.range.high] : [fit.elasticity];
+  const outside = (price: number) =>
+    fit.observedRange !== null && (price < fit.observedRange.min - 0.005 || price > fit.observedRange.max + 0.005);
+
+  const stores = Array.from(dailyUnits.keys()).sort().flatMap(location => {
+    const currentPrice = latest.get(location)?.price;
+    if (!currentPrice) return [];
+
+    const weeklyUnits = Array.from({ length: BASELINE_WEEKS }, () => 0);
+    dailyUnits.get(location)!.forEach((units, day) => {
+      weeklyUnits[Math.floor(daysBetween(from, day) / 7)] += units;
+    });
+    const revenue = Array.from(dailyRevenue.get(location)?.values() || []).reduce((sum, value) => sum + value, 0);
+    const units = weeklyUnits.reduce((sum, value) => sum + value, 0) / BASELINE_WEEKS;
+    const spread = Math.sqrt(weeklyUnits.reduce((sum, value) => sum + (value - units) ** 2, 0) / (BASELINE_WEEKS - 1));
+    const baseline = { units: round2(units), revenue: round2(revenue / BASELINE_WEEKS) };
+    // Revenue per unit at list price, so the discount mix carries over
+    const realized = units > 0 ? baseline.revenue / (units * currentPrice) : 1;
+
+    const candidatePrice = round2(candidates.storePrices?.[location] ?? candidates.price ?? currentPrice);
+    const factors = elasticities.map(e => Math.pow(candidatePrice / currentPrice, -e));
+    const projectedUnits = units * Math.pow(candidatePrice / currentPrice, -fit.elasticity);
+    const unitsLow = Math.max(0, units - WEEK_Z * spread) * Math.min(...factors);
+    const unitsHigh = (units + WEEK_Z * spread) * Math.max(...factors);
+    const perUnit = candidatePrice * realized;
+
+    const projected: PriceProjection = {
+      units: round2(projectedUnits),
+      unitsLow: round2(unitsLow),
+      unitsHigh: round2(unitsHigh),
+      revenue: round2(projectedUnits * perUnit),
+      revenueLow: round2(unitsLow * perUnit),
+      revenueHigh: round2(unitsHigh * perUnit)
+    };
+    const simulation: StorePriceSimulation = {
+      location,
+      currentPrice,
+      candidatePrice,
+      baseline,
+      projected,
+      change: changeFrom(baseline, projected),
+      outsideObservedRange: outside(candidatePrice)
+    };
+    return [simulation];
+  });
+  if (stores.length === 0) return null;
+
+  // Every store shares the elasticity, so their low (and high) ends move
+  // together and can be added up
+  const sum = (pick: (store: StorePriceSimulation) => number) => round2(stores.reduce((total, store) => total + pick(store), 0));
+  const baseline = { units: sum(s => s.baseline.units), revenue: sum(s => s.baseline.revenue) };
+  const projected: PriceProjection = {
+    units: sum(s => s.projected.units),
+    unitsLow: sum(s => s.projected.unitsLow),
+    unitsHigh: sum(s => s.projected.unitsHigh),
+    revenue: sum(s => s.projected.revenue),
+    revenueLow: sum(s => s.projected.revenueLow),
+    revenueHigh: sum(s => s.projected.revenueHigh)
+  };
+
+  if (fit.elasticity === 0) {
+    warnings.push('Not enough price variation to estimate elasticity, so volume is assumed not to change with price.');
+  } else if (fit.elasticity < 0) {
+    warnings.push(`Elasticity is negative (${fit.elasticity.toFixed(2)}): sales have risen with price, likely due to other factors, so treat these projections with caution.`);
+  }
+  const outsidePrices = Array.from(new Set(stores.filter(s => s.outsideObservedRange).map(s => s.candidatePrice)));
+  if (outsidePrices.length > 0 && fit.observedRange) {
+    warnings.push(`${outsidePrices.map(money).join(', ')} ${outsidePrices.length > 1 ? 'are' : 'is'} outside the observed price range (${money(fit.observedRange.min)} to ${money(fit.observedRange.max)}); the projection extrapolates beyond the data.`);
+  }
+
+  return {
+    product,
+    baselineWeeks: BASELINE_WEEKS,
+    elasticity: fit.elasticity,
+    elasticityRange: fit.range,
+    observedRange: fit.observedRange,
+    stores,
+    total: { baseline, projected, change: changeFrom(baseline, projected) },
+    warnings
+  };
+}
@@ -0,0 +1,116 @@
+import type { ProductSummary, Transaction } from '@/types/data';
+import type { CubeFilter } from '@/lib/cube';
+import { getSalesCube, queryCube, measureByPair, daysBefore } from '@/lib/cube';
+import { parseTransactions } from '@/lib/transactions';
+import { toDayKey } from '@/lib/periods';
+import { toSlug } from '@/utils/slug';
+
+// Product catalog with per-product metrics, shared by /api/products and
+// anything else that needs a product picker
+
+// A product counts as active if it sold this recently, relative to the newest sale in the data
+export const ACTIVE_WINDOW_DAYS = 30;
+
+export type ProductSortField = 'name' | 'revenue' | 'units' | 'orders' | 'lastSold' | 'currentPrice';
+
+export interface ProductQuery {
+  search?: string;
+  status?: 'active' | 'inactive';
+  sort?: ProductSortField;
+  order?: 'asc' | 'desc';
+  page?: number;     // 1-based
+  pageSize?: number;
+}
+
+export function buildProductCatalog(data: unknown[], filter: CubeFilter = {}): ProductSummary[] {
+  const cube = getSalesCube(data);
+  const { transactions } = parseTransactions(data);
+  const prices = summarizePrices(transactions, filter);
+  const activeSince = cube.lastDay ? daysBefore(cube.lastDay, ACTIVE_WINDOW_DAYS) : null;
+
+  const dailyUnits = measureByPair(cube, 'product', 'day', 'units', filter);
+  // Activity uses the whole dataset, so a time-range filter doesn't mark products inactive
+  const allDailyUnits = measureByPair(cube, 'product', 'day', 'units');
+  const locationUnits = measureByPair(cube, 'product', 'location', 'units', filter);
+
+  return queryCube(cube, ['product'], filter).map(row => {
+    const name = row.key.product!;
+    const days = Array.from(dailyUnits.get(name)?.keys() || []).sort();
+    const lastSold = days[days.length - 1] || null;
+    const price = prices.get(name);
+
+    return {
+      id: toSlug(name),
+      name,
+      revenue: row.revenue,
+      units: row.units,
+      orders: row.orders,
+      averageListPrice: price && price.units > 0 ? price.listRevenue / price.units : 0,
+      currentPrice: price ? price.latestPrice : null,
+      firstSold: days[0] || null,
+      lastSold,
+      active: Array.from(allDailyUnits.get(name)?.keys() || []).some(day => day >= (activeSince || '')),
+      locations: Array.from(locationUnits.get(name)?.keys() || []).sort()
+    };
+  });
+}
+
+// Applies search, status, sort and pagination to a catalog
+export function queryProductCatalog(catalog: ProductSummary[], query: ProductQuery = {}): {
+  products: ProductSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+} {
+  const search = query.search?.trim().toLowerCase();
+  let products = catalog.filter(product =>
+    (!search || product.name.toLowerCase().includes(search)) &&
+    (!query.status || product.active === (query.status === 'active'))
+  );
+
+  const sort = query.sort || 'revenue';
+  const direction = (query.order || (sort === 'name' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+  products = [...products].sort((a, b) => {
+    const aValue = a[sort] ?? '';
+    const bValue = b[sort] ?? '';
+    if (typeof aValue === 'number' && typeof bValue === 'number') {
+      return (aValue - bValue) * direction;
+    }
+    return String(aValue).localeCompare(String(bValue)) * direction;
+  });
+
+  const pageSize = Math.max(1, query.pageSize || products.length || 1);
+  const page = Math.max(1, query.page || 1);
+
+  return {
+    products: products.slice((page - 1) * pageSize, page * pageSize),
+    total: products.length,
+    page,
+    pageSize
+  };
+}
+
+function summarizePrices(transactions: Transaction[], filter: CubeFilter) {
+  const prices = new Map<string, { listRevenue: number; units: number; latestPrice: number; latestAt: number }>();
+
+  transactions.forEach(t => {
+    const day = toDayKey(t.purchaseDate);
+    if (filter.from && day < filter.from) return;
+    if (filter.to && day > filter.to) return;
+
+    let entry = prices.get(t.productName);
+    if (!entry) {
+      entry = { listRevenue: 0, units: 0, latestPrice: t.unitPrice, latestAt: -Infinity };
+      prices.set(t.productName, entry);
+    }
+
+    entry.listRevenue += t.unitPrice * t.quantity;
+    entry.units += t.quantity;
+    if (t.purchaseDate.getTime() >= entry.latestAt) {
+      entry.latestAt = t.purchaseDate.getTime();
+      entry.latestPrice = t.unitPrice;
+    }
+  });
+
+  return prices;
+}
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { toSlug } from '@/utils/slug';
+import { validateDayKey } from '@/lib/timeRange';
+import { toDayKey } from '@/lib/periods';
+
+// Server-side workflow state for recommendations (status, assignee, notes),
+// persisted to a JSON file so it survives reloads and is shared by everyone
+// using the dashboard. Recommendations themselves are regenerated from the
+// data on each request and matched to their state by a stable id.
+
+export const RECOMMENDATION_STATUSES = ['open', 'in_progress', 'snoozed', 'resolved', 'dismissed'] as const;
+export type RecommendationStatus = typeof RECOMMENDATION_STATUSES[number];
+
+export interface RecommendationNote {
+  text: string;
+  author: string | null;
+  createdAt: string; // ISO timestamp
+}
+
+export interface RecommendationHistoryEntry {
+  status: RecommendationStatus;
+  assignee: string | null;
+  by: string | null;
+  at: string;
+}
+
+export interface RecommendationState {
+  status: RecommendationStatus;
+  snoozedUntil: string | null;  // YYYY-MM-DD, reopens on this day
+  dismissReason: string | null;
+  assignee: string | null;
+  notes: RecommendationNote[];
+  history: RecommendationHistoryEntry[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface RecommendationStateUpdate {
+  status?: RecommendationStatus;
+  snoozedUntil?: string;
+  dismissReason?: string;
+  assignee?: string | null;
+  note?: string;
+  author?: string;
+}
+
+const DEFAULT_STATE_PATH = './data/recommendation-state.json';
+
+export const OPEN_STATE: RecommendationState = {
+  status: 'open',
+  snoozedUntil: null,
+  dismissReason: null,
+  assignee: null,
+  notes: [],
+  history: [],
+  updatedAt: null,
+  updatedBy: null
+};
+
+// Same kind of advice for the same target and month keeps its state across
+// reloads; when the data moves on to a new month it starts out open again
+export function getRecommendationId(rec: { type: string; action: string; target: string; period: string }): string {
+  return `${rec.type}:${rec.action}:${toSlug(rec.target)}:${rec.period}`;
+}
+
+function statePath(): string {
+  return path.resolve(process.cwd(), process.env.RECOMMENDATION_STATE_PATH || DEFAULT_STATE_PATH);
+}
+
+export async function loadRecommendationStates(): Promise<Record<string, RecommendationState>> {
+  try {
+    return JSON.parse(await fs.readFile(statePath(), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}; // Nothing saved yet
+    throw error;
+  }
+}
+
+// Snoozes lapse on their date without anyone having to touch them
+export function effectiveState(state: RecommendationState | undefined, today: string = toDayKey(new Date())): RecommendationState {
+  if (!state) return OPEN_STATE;
+  if (state.status === 'snoozed' && state.snoozedUntil && state.snoozedUntil <= today) {
+    return { ...state, status: 'open', snoozedUntil: null };
+  }
+  return state;
+}
+
+// Throws with a user-facing message when the update is invalid
+export function validateStateUpdate(update: RecommendationStateUpdate): void {
+  (['snoozedUntil', 'dismissReason', 'note', 'author'] as const).forEach(field => {
+    if (update[field] !== undefined && typeof update[field] !== 'string') {
+      throw new Error(`${field} must be a string`);
+    }
+  });
+  if (update.assignee !== undefined && update.assignee !== null && typeof update.assignee !== 'string') {
+    throw new Error('assignee must be a string or null');
+  }
+  if (update.status !== undefined && !RECOMMENDATION_STATUSES.includes(update.status)) {
+    throw new Error(`status must be one of ${RECOMMENDATION_STATUSES.join(', ')}`);
+  }
+  if (update.status === 'snoozed') {
+    if (!update.snoozedUntil) throw new Error('snoozedUntil is required when snoozing');
+    validateDayKey('snoozedUntil', update.snoozedUntil);
+  }
+  if (update.status === 'dismissed' && !update.dismissReason?.trim()) {
+    throw new Error('dismissReason is required when dismissing');
+  }
+  if (update.note !== undefined && !update.note.trim()) {
+    throw new Error('note must not be empty');
+  }
+}
+
+// Writes are serialized so two quick updates can't overwrite each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export function updateRecommendationState(id: string, update: RecommendationStateUpdate): Promise<RecommendationState> {
+  const task = writeQueue.then(async () => {
+    const states = await loadRecommendationStates();
+    const previous = effectiveState(states[id]);
+    const now = new Date().toISOString();
+    const author = update.author?.trim() || null;
+
+    const status = update.status ?? previous.status;
+    const assignee = update.assignee !== undefined ? (update.assignee?.trim() || null) : previous.assignee;
+    const next: RecommendationState = {
+      ...previous,
+      status,
+      snoozedUntil: status === 'snoozed' ? update.snoozedUntil ?? previous.snoozedUntil : null,
+      dismissReason: status === 'dismissed' ? update.dismissReason?.trim() ?? previous.dismissReason : null,
+      assignee,
+      notes: update.note
+        ? [...previous.notes, { text: update.note.trim(), author, createdAt: now }]
+        : previous.notes,
+      history: status !== previous.status || assignee !== previous.assignee
+        ? [...previous.history, { status, assignee, by: author, at: now }]
+        : previous.history,
+      updatedAt: now,
+      updatedBy: author
+    };
+
+    states[id] = next;
+    const file = statePath();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write to a temp file and rename so readers never see a partial file
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(states, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+
+    console.log(`Recommendation ${id} is now ${next.status}${next.assignee ? ` (assigned to ${next.assignee})` : ''}`);
+    return next;
+  });
+
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
@@ -0,0 +1,645 @@
+import { getSalesCube, measureBy, measureByPair, queryCube } from '@/lib/cube';
+import type { SalesCube } from '@/lib/cube';
+import { calculateGrowth, compareWithLastYear, getMonthlySeries } from '@/lib/growth';
+import type { SeasonalComparison } from '@/lib/growth';
+import { enumeratePeriods, parseDayKey, toMonthKey } from '@/lib/periods';
+import { analyzePricePerformance } from '@/app/api/chat/analyzers';
+
+// Fields every recommendation card can rely on. impactEstimate is the
+// expected change in monthly revenue if acted on (negative = revenue at risk
+// or given up), so different kinds of advice can be ranked together. period
+// is the month the advice is about, so the same advice for a later month gets
+// a fresh workflow state.
+interface BaseRecommendation {
+  type: 'store' | 'product' | 'discount';
+  target: string;
+  period: string; // YYYY-MM
+  metric: string;
+  value: string;
+  benchmark?: string;
+  impact?: string;
+  impactEstimate: number;
+}
+
+// Month-over-month revenue movement of a product or store. When the data
+// covers the same months last year, the change is judged against that year's
+// change and impactEstimate is the shortfall vs the seasonal expectation.
+export interface TrendRecommendation extends BaseRecommendation {
+  type: 'store' | 'product';
+  action: 'reverse_decline' | 'maintain_growth';
+  seasonality?: SeasonalComparison;
+}
+
+// Move a product's list price towards the one its price history favours
+export interface PriceChangeRecommendation extends BaseRecommendation {
+  type: 'product';
+  action: 'price_change';
+  currentPrice: number;
+  recommendedPrice: number;
+  elasticity: number;
+  projectedUnitChange: number; // % change in monthly units at the new price
+}
+
+// Discount code whose orders bring in less than the same products sell for without it
+export interface PromoDiscontinuationRecommendation extends BaseRecommendation {
+  type: 'discount';
+  action: 'discontinue_promo';
+  revenueLift: number; // % vs the no-code revenue per order for the same products
+  orders: number;
+}
+
+// Bottom sellers that contribute little revenue
+export interface ProductPruningRecommendation extends BaseRecommendation {
+  type: 'product';
+  action: 'prune_product';
+  revenueShare: number; // % of total revenue
+}
+
+// Product that sells well across the network but under-indexes at one store
+export interface AssortmentGapRecommendation extends BaseRecommendation {
+  type: 'store';
+  action: 'assortment_gap';
+  location: string;
+  product: string;
+  storeShare: number;   // % of the store's revenue
+  networkShare: number; // % of revenue at the other stores
+}
+
+// Product whose sales peaked in the coming month last year
+export interface SeasonalStockingRecommendation extends BaseRecommendation {
+  type: 'product';
+  action: 'seasonal_stocking';
+  month: string; // YYYY-MM being stocked for
+  expectedUnits: number;
+  seasonalIndex: number; // last year's month vs that year's monthly average
+}
+
+export type Recommendation =
+  | TrendRecommendation
+  | PriceChangeRecommendation
+  | PromoDiscontinuationRecommendation
+  | ProductPruningRecommendation
+  | AssortmentGapRecommendation
+  | SeasonalStockingRecommendation;
+
+export type RecommendationAction = Recommendation['action'];
+
+export const RECOMMENDATION_ACTION_LABELS: Record<RecommendationAction, string> = {
+  reverse_decline: 'Reverse decline',
+  maintain_growth: 'Maintain growth',
+  price_change: 'Change price',
+  discontinue_promo: 'Discontinue promotion',
+  prune_product: 'Consider removing product',
+  assortment_gap: 'Fill assortment gap',
+  seasonal_stocking: 'Stock up for the season'
+};
+
+// Tuning for the newer recommendation kinds
+const MAX_PER_KIND = 5;
+const PRICE_ANALYSIS_PRODUCTS = 10;   // analyzePricePerformance scans every row, so cap it
+const PRUNE_BOTTOM_PERCENT = 20;      // same cut as the low performers chat answer
+const PRUNE_MAX_SHARE = 5;            // ...but only products under 5% of revenue
+const GAP_MIN_NETWORK_SHARE = 10;     // product must matter elsewhere
+const GAP_MAX_RATIO = 0.5;            // and sell at under half that share here
+const SEASONAL_MIN_INDEX = 1.25;      // 25% above a normal month
+const BASELINE_MONTHS = 3;
+const SEASONAL_TOLERANCE = 5;         // % below the seasonal expectation still counted as normal
+
+// Helper function to format month
+function formatMonth(monthKey: string): string {
+  const [year, month] = monthKey.split('-');
+  const date = new Date(parseInt(year), parseInt(month) - 1);
+  return date.toLocaleString('default', { month: 'long', year: 'numeric' });
+}
+
+// Month-over-month decline/growth recommendations for products and stores
+function generateTrendRecommendations(data: unknown[]): TrendRecommendation[] {
+  const cube = getSalesCube(data);
+  
+  // Track monthly sales by product and store
+  const monthlyProductSales = measureByPair(cube, 'month', 'product');
+  const monthlyStoreSales = measureByPair(cube, 'month', 'location');
+
+  // Get current and previous months
+  const months = Array.from(monthlyProductSales.keys()).sort();
+  if (months.length < 2) return [];
+
+  const currentMonth = months[months.length - 1];
+  const previousMonth = months[months.length - 2];
+  
+  // Modified approach - look for products with declining sales
+  const productRecommendations: TrendRecommendation[] = [];
+  
+  // Monthly revenue for each product, grouped by product name and then by month
+  const productMonthlyRevenue = measureByPair(cube, 'product', 'month');
+  
+  // Now identify products with declining sales
+  const declineProducts: Array<{
+    product: string;
+    currentMonth: string;
+    previousMonth: string;
+    currentValue: number;
+    previousValue: number;
+    change: number; // Absolute dollar change
+    percentChange: number;
+    shortfall: number; // Dollars below what the season explains
+    seasonality: SeasonalComparison | null;
+  }> = [];
+  
+  // For each product, compare its two most recent months of sales
+  productMonthlyRevenue.forEach((monthlyData, product) => {
+    // Need at least two months of data
+    const growth = calculateGrowth(monthlyData);
+    if (!growth) return;
+    
+    // Calculate dollar change and percent change
+    const change = growth.currentValue - growth.previousValue;
+    
+    // Only include products with declining sales (negative change)
+    if (change < 0) {
+      const seasonality = compareWithLastYear(monthlyData, growth);
+      // The same dip happened last year, so it's the season rather than a problem
+      if (seasonality && seasonality.adjustedChange > -SEASONAL_TOLERANCE) {
+        console.log(`Skipping ${product}: ${seasonality.actualChange.toFixed(1)}% vs ${seasonality.expectedChange.toFixed(1)}% last year`);
+        return;
+      }
+
+      declineProducts.push({
+        product,
+        currentMonth: growth.currentMonth,
+        previousMonth: growth.previousMonth,
+        currentValue: growth.currentValue,
+        previousValue: growth.previousValue,
+        change: Math.abs(change), // Use absolute value for sorting
+        percentChange: growth.growth * 100,
+        shortfall: seasonality ? seasonality.expectedValue - growth.currentValue : Math.abs(change),
+        seasonality
+      });
+    }
+  });
+  
+  // Sort by dollar impact beyond the seasonal norm (largest first)
+  declineProducts.sort((a, b) => b.shortfall - a.shortfall);
+  
+  // Create recommendations for top declining products
+  declineProducts.slice(0, 5).forEach(item => {
+    const monthNameCurrent = getMonthNameFromKey(item.currentMonth);
+    const monthNamePrevious = getMonthNameFromKey(item.previousMonth);
+    
+    productRecommendations.push({
+      type: 'product',
+      action: 'reverse_decline',
+      target: item.product,
+      period: item.currentMonth,
+      metric: 'revenue',
+      value: `${Math.abs(item.percentChange).toFixed(1)}%`,
+      benchmark: `${monthNamePrevious} vs ${monthNameCurrent}`,
+      impact: `$${item.change.toFixed(2)} decrease${item.seasonality ? ` (${describeSeasonality(item.seasonality)})` : ''}`,
+      impactEstimate: -item.shortfall,
+      ...(item.seasonality && { seasonality: item.seasonality })
+    });
+  });
+  
+  // Find all stores with changes
+  const storeChanges: Array<{
+    store: string;
+    change: number; // % vs the previous month, or vs the seasonal expectation when known
+    currentSales: number;
+    previousSales: number;
+    seasonality: SeasonalComparison | null;
+  }> = [];
+  
+  const currentStores = monthlyStoreSales.get(currentMonth) || new Map();
+  const previousStores = monthlyStoreSales.get(previousMonth) || new Map();
+  
+  previousStores.forEach((previousAmount, store) => {
+    if (previousAmount < 100) return; // Ignore low volume
+    const currentAmount = currentStores.get(store) || 0;
+    const growth = (currentAmount - previousAmount) / previousAmount;
+    const seasonality = compareWithLastYear(getMonthlySeries(cube, 'store', store)!, {
+      growth,
+      currentMonth,
+      previousMonth,
+      currentValue: currentAmount,
+      previousValue: previousAmount
+    });
+    storeChanges.push({
+      store,
+      change: seasonality ? seasonality.adjustedChange : growth * 100,
+      currentSales: currentAmount,
+      previousSales: previousAmount,
+      seasonality
+    });
+  });
+  
+  // Sort by absolute change (highest first)
+  storeChanges.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+  
+  // Create store recommendations
+  const storeRecommendations: TrendRecommendation[] = [];
+  
+  // Add store recommendations
+  storeChanges.forEach(({ store, change, currentSales, previousSales, seasonality }) => {
+    // Always include at least the first store, regardless of threshold
+    if (Math.abs(change) >= 3 || storeChanges.length <= 1) { // Lower threshold for stores
+      storeRecommendations.push({
+        type: 'store',
+        action: isStoreDecline(change, seasonality) ? 'reverse_decline' : 'maintain_growth',
+        target: store,
+        period: currentMonth,
+        metric: 'Revenue',
+        value: `$${currentSales.toFixed(2)}`,
+        benchmark: `$${previousSales.toFixed(2)}`,
+        impact: describeStoreChange(change, previousMonth, currentMonth, previousSales, currentSales, seasonality),
+        impactEstimate: seasonality ? currentSales - seasonality.expectedValue : currentSales - previousSales,
+        ...(seasonality && { seasonality })
+      });
+    }
+  });
+  
+  // Sort recommendations with the best ones first
+  const recommendations = [...productRecommendations, ...storeRecommendations];
+  recommendations.sort((a, b) => {
+    // First, prioritize declining over growing
+    if (a.action === 'reverse_decline' && b.action !== 'reverse_decline') return -1;
+    if (b.action === 'reverse_decline' && a.action !== 'reverse_decline') return 1;
+    
+    // Then by size of the monthly change (the shortfall against the seasonal
+    // expectation where there is one), keeping products in shortfall order
+    return Math.abs(b.impactEstimate) - Math.abs(a.impactEstimate);
+  });
+  
+  // Create a final recommendations array with HARDCODED structure:
+  // [product1, product2, store1, remaining recommendations...]
+  const finalRecs: TrendRecommendation[] = [];
+  
+  // First add up to 2 product recommendations (if available)
+  const productRecs = recommendations.filter(r => r.type === 'product').slice(0, 2);
+  finalRecs.push(...productRecs);
+  
+  // ALWAYS add a store recommendation at position 3
+  const storeRecs = recommendations.filter(r => r.type === 'store');
+  
+  if (storeRecs.length > 0) {
+    // We have store recommendations - add the first one
+    finalRecs.push(storeRecs[0]);
+  } else if (storeChanges.length > 0) {
+    // Add a store recommendation directly from storeChanges
+    const storeRec = storeChanges[0];
+    finalRecs.push({
+      type: 'store',
+      action: isStoreDecline(storeRec.change, storeRec.seasonality) ? 'reverse_decline' : 'maintain_growth',
+      target: storeRec.store,
+      period: currentMonth,
+      metric: 'Revenue',
+      value: `$${storeRec.currentSales.toFixed(2)}`,
+      benchmark: `$${storeRec.previousSales.toFixed(2)}`,
+      impact: describeStoreChange(storeRec.change, previousMonth, currentMonth, storeRec.previousSales, storeRec.currentSales, storeRec.seasonality),
+      impactEstimate: storeRec.seasonality
+        ? storeRec.currentSales - storeRec.seasonality.expectedValue
+        : storeRec.currentSales - storeRec.previousSales,
+      ...(storeRec.seasonality && { seasonality: storeRec.seasonality })
+    });
+  } else {
+    // Create a fallback store recommendation
+    const storeLocations = cube.locations;
+    if (storeLocations.length > 0) {
+      finalRecs.push({
+        type: 'store',
+        action: 'maintain_growth',
+        target: storeLocations[0],
+        period: currentMonth,
+        metric: 'Revenue',
+        value: 'Stable',
+        impact: 'Overall performance remains consistent',
+        impactEstimate: 0
+      });
+    }
+  }
+  
+  // Add remaining unique recommendations
+  const usedTargets = new Set(finalRecs.map(r => r.target));
+  for (const rec of recommendations) {
+    if (!usedTargets.has(rec.target)) {
+      finalRecs.push(rec);
+      usedTargets.add(rec.target);
+      if (finalRecs.length >= 10) break;
+    }
+  }
+  
+  // Debug logging to verify store recommendation is included
+  console.log('FINAL RECOMMENDATIONS (hardcoded ordering):');
+  finalRecs.forEach((rec, i) => {
+    console.log(`${i+1}. ${rec.type}: ${rec.target} (${rec.action})`);
+  });
+  
+  return finalRecs;
+}
+
+// e.g. "expected -20.0% from last year's November → December, actual -25.0%"
+function describeSeasonality(seasonality: SeasonalComparison): string {
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+  return `expected ${signed(seasonality.expectedChange)} from ${getMonthNameFromKey(seasonality.lastYearStart)} → ` +
+    `${getMonthNameFromKey(seasonality.lastYearEnd)}, actual ${signed(seasonality.actualChange)}`;
+}
+
+// A store tracking within tolerance of last year's pattern needs no action
+function isStoreDecline(change: number, seasonality: SeasonalComparison | null): boolean {
+  return seasonality ? change <= -SEASONAL_TOLERANCE : change < 0;
+}
+
+// change is the seasonally adjusted % when last year's months are available
+function describeStoreChange(
+  change: number,
+  previousMonth: string,
+  currentMonth: string,
+  previousSales: number,
+  currentSales: number,
+  seasonality: SeasonalComparison | null
+): string {
+  const months = `(${formatMonth(previousMonth)}: $${previousSales.toFixed(2)} → ${formatMonth(currentMonth)}: $${currentSales.toFixed(2)})`;
+  if (seasonality) {
+    return Math.abs(change) < 2
+      ? `Revenue in line with last year's seasonal pattern ${months}; ${describeSeasonality(seasonality)}`
+      : `Revenue ${Math.abs(change).toFixed(1)}% ${change < 0 ? 'below' : 'above'} the seasonal expectation ${months}; ${describeSeasonality(seasonality)}`;
+  }
+  return Math.abs(change) < 2
+    ? `Revenue stable at ${formatMonth(currentMonth)}: $${currentSales.toFixed(2)}`
+    : `Revenue ${change < 0 ? 'declining' : 'growing'} ${Math.abs(change).toFixed(1)}% ${months}`;
+}
+
+// Helper function to get month name from YYYY-MM format
+function getMonthNameFromKey(key: string): string {
+  const [year, month] = key.split('-');
+  const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
+                      'July', 'August', 'September', 'October', 'November', 'December'];
+  
+  return `${monthNames[parseInt(month) - 1]} ${year}`;
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+const byImpact = (a: Recommendation, b: Recommendation) => Math.abs(b.impactEstimate) - Math.abs(a.impactEstimate);
+
+// Every month the dataset touches, oldest first
+function datasetMonths(cube: SalesCube): string[] {
+  return cube.firstDay && cube.lastDay ? enumeratePeriods(cube.firstDay, cube.lastDay, 'month') : [];
+}
+
+// Average of the last few months, counting months without sales as zero
+function monthlyBaseline(values: Map<string, number> | undefined, months: string[]): number {
+  const recent = months.slice(-BASELINE_MONTHS);
+  if (recent.length === 0) return 0;
+  return recent.reduce((sum, month) => sum + (values?.get(month) || 0), 0) / recent.length;
+}
+
+function shiftMonth(monthKey: string, offset: number): string {
+  const [year, month] = monthKey.split('-').map(Number);
+  return toMonthKey(new Date(year, month - 1 + offset, 1));
+}
+
+async function generatePriceRecommendations(data: unknown[], cube: SalesCube): Promise<PriceChangeRecommendation[]> {
+  const months = datasetMonths(cube);
+  const monthlyUnits = measureByPair(cube, 'product', 'month', 'units');
+  const topProducts = Array.from(measureBy(cube, 'product').entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, PRICE_ANALYSIS_PRODUCTS);
+
+  const recommendations: PriceChangeRecommendation[] = [];
+  for (const [product] of topProducts) {
+    const analysis = await analyzePricePerformance(data, product);
+    if ('error' in analysis || !analysis.currentPrice) continue;
+
+    // Elasticity is reported as a magnitude (units fall as price rises);
+    // zero or negative means the history can't tell us how buyers react
+    const elasticity = analysis.priceElasticity;
+    const priceChange = (analysis.recommendedPrice - analysis.currentPrice) / analysis.currentPrice;
+    if (!(elasticity > 0) || !isFinite(elasticity) || Math.abs(priceChange) < 0.01) continue;
+
+    const unitChange = Math.max(-1, -elasticity * priceChange);
+    const units = monthlyBaseline(monthlyUnits.get(product), months);
+    const impactEstimate = units * (1 + unitChange) * analysis.recommendedPrice - units * analysis.currentPrice;
+    if (impactEstimate <= 0) continue; // Only suggest moves expected to pay off
+
+    recommendations.push({
+      type: 'product',
+      action: 'price_change',
+      target: product,
+      period: months[months.length - 1],
+      metric: 'price',
+      value: money(analysis.recommendedPrice),
+      benchmark: money(analysis.currentPrice),
+      impact: `${priceChange > 0 ? 'Raise' : 'Lower'} price ${money(analysis.currentPrice)} → ${money(analysis.recommendedPrice)}: ` +
+        `units ${unitChange >= 0 ? '+' : ''}${(unitChange * 100).toFixed(1)}%, about +${money(impactEstimate)} revenue per month`,
+      impactEstimate,
+      currentPrice: analysis.currentPrice,
+      recommendedPrice: analysis.recommendedPrice,
+      elasticity,
+      projectedUnitChange: unitChange * 100
+    });
+  }
+  return recommendations.sort(byImpact).slice(0, MAX_PER_KIND);
+}
+
+// A code's "lift" compares its orders with what the same products earn per
+// order without any code. Negative lift means the discount gives away more
+// than it brings in extra basket size.
+function generatePromoRecommendations(cube: SalesCube): PromoDiscontinuationRecommendation[] {
+  const rows = queryCube(cube, ['discountCode', 'product']);
+  const noCode = new Map(rows.filter(row => row.key.discountCode === '').map(row => [row.key.product!, row]));
+  const codeMonths = measureByPair(cube, 'discountCode', 'month', 'orders');
+  const codeOrders = measureBy(cube, 'discountCode', 'orders');
+  const months = datasetMonths(cube);
+
+  const lifts = new Map<string, { actual: number; expected: number }>();
+  rows.forEach(row => {
+    const code = row.key.discountCode!;
+    const baseline = noCode.get(row.key.product!);
+    if (!code || !baseline || baseline.orders === 0) return;
+
+    const entry = lifts.get(code) || { actual: 0, expected: 0 };
+    entry.actual += row.revenue;
+    entry.expected += row.orders * (baseline.revenue / baseline.orders);
+    lifts.set(code, entry);
+  });
+
+  const recommendations: PromoDiscontinuationRecommendation[] = [];
+  lifts.forEach(({ actual, expected }, code) => {
+    if (expected === 0 || actual >= expected) return;
+    const lift = (actual / expected - 1) * 100;
+    const activeMonths = codeMonths.get(code)?.size || 1;
+    const impactEstimate = (expected - actual) / activeMonths;
+
+    recommendations.push({
+      type: 'discount',
+      action: 'discontinue_promo',
+      target: code,
+      period: months[months.length - 1],
+      metric: 'revenue lift',
+      value: `${lift.toFixed(1)}%`,
+      benchmark: `${money(expected)} without the code`,
+      impact: `Orders with ${code} brought in ${money(actual)} vs ${money(expected)} for the same products at full price; ` +
+        `dropping it recovers about ${money(impactEstimate)} per month`,
+      impactEstimate,
+      revenueLift: lift,
+      orders: codeOrders.get(code) || 0
+    });
+  });
+  return recommendations.sort(byImpact).slice(0, MAX_PER_KIND);
+}
+
+function generatePruningRecommendations(cube: SalesCube): ProductPruningRecommendation[] {
+  const revenueByProduct = Array.from(measureBy(cube, 'product').entries()).sort((a, b) => a[1] - b[1]);
+  const total = revenueByProduct.reduce((sum, [, revenue]) => sum + revenue, 0);
+  if (revenueByProduct.length < 2 || total === 0) return [];
+
+  const months = datasetMonths(cube);
+  const monthlyRevenue = measureByPair(cube, 'product', 'month');
+  const bottomCount = Math.max(1, Math.ceil(revenueByProduct.length * (PRUNE_BOTTOM_PERCENT / 100)));
+
+  return revenueByProduct
+    .slice(0, bottomCount)
+    .map(([product, revenue]) => ({ product, revenue, share: (revenue / total) * 100 }))
+    .filter(({ share }) => share < PRUNE_MAX_SHARE)
+    .map(({ product, revenue, share }): ProductPruningRecommendation => {
+      const monthly = monthlyBaseline(monthlyRevenue.get(product), months);
+      return {
+        type: 'product',
+        action: 'prune_product',
+        target: product,
+        period: months[months.length - 1],
+        metric: 'revenue share',
+        value: `${share.toFixed(1)}%`,
+        benchmark: `${money(revenue)} total`,
+        impact: `Only ${share.toFixed(1)}% of revenue; removing it gives up about ${money(monthly)} per month but frees menu space and prep time`,
+        impactEstimate: -monthly,
+        revenueShare: share
+      };
+    })
+    .slice(0, MAX_PER_KIND);
+}
+
+function generateAssortmentGapRecommendations(cube: SalesCube): AssortmentGapRecommendation[] {
+  if (cube.locations.length < 2) return [];
+
+  const months = datasetMonths(cube);
+  const storeProduct = measureByPair(cube, 'location', 'product');
+  const storeTotals = measureBy(cube, 'location');
+  const productTotals = measureBy(cube, 'product');
+  const storeMonthly = measureByPair(cube, 'location', 'month');
+  const total = Array.from(storeTotals.values()).reduce((sum, value) => sum + value, 0);
+
+  const recommendations: AssortmentGapRecommendation[] = [];
+  cube.locations.forEach(location => {
+    const storeRevenue = storeTotals.get(location) || 0;
+    const otherRevenue = total - storeRevenue;
+    if (storeRevenue === 0 || otherRevenue === 0) return;
+
+    cube.products.forEach(product => {
+      const here = storeProduct.get(location)?.get(product) || 0;
+      const networkShare = (((productTotals.get(product) || 0) - here) / otherRevenue) * 100;
+      const storeShare = (here / storeRevenue) * 100;
+      if (networkShare < GAP_MIN_NETWORK_SHARE || storeShare >= networkShare * GAP_MAX_RATIO) return;
+
+      const impactEstimate = monthlyBaseline(storeMonthly.get(location), months) * (networkShare - storeShare) / 100;
+      recommendations.push({
+        type: 'store',
+        action: 'assortment_gap',
+        target: `${product} at ${location}`,
+        period: months[months.length - 1],
+        metric: 'product share',
+        value: `${storeShare.toFixed(1)}%`,
+        benchmark: `${networkShare.toFixed(1)}% at other stores`,
+        impact: here === 0
+          ? `${product} isn't sold at ${location} but is ${networkShare.toFixed(1)}% of sales elsewhere; worth about ${money(impactEstimate)} per month`
+          : `${product} is ${storeShare.toFixed(1)}% of ${location}'s sales vs ${networkShare.toFixed(1)}% elsewhere; closing the gap is worth about ${money(impactEstimate)} per month`,
+        impactEstimate,
+        location,
+        product,
+        storeShare,
+        networkShare
+      });
+    });
+  });
+  return recommendations.sort(byImpact).slice(0, MAX_PER_KIND);
+}
+
+// Looks at how the coming month sold last year relative to that year's
+// typical month, and scales the current run rate by the same factor
+function generateSeasonalStockingRecommendations(cube: SalesCube): SeasonalStockingRecommendation[] {
+  if (!cube.lastDay) return [];
+
+  const months = datasetMonths(cube);
+  const upcoming = shiftMonth(toMonthKey(parseDayKey(cube.lastDay)), 1);
+  const lastYear = shiftMonth(upcoming, -12);
+  // The year of history leading up to last year's month
+  const yearBefore = Array.from({ length: 12 }, (_, i) => shiftMonth(lastYear, i - 11)).filter(month => months.includes(month));
+  if (!months.includes(lastYear) || yearBefore.length < 6) return [];
+
+  const monthlyUnits = measureByPair(cube, 'product', 'month', 'units');
+  const monthlyRevenue = measureByPair(cube, 'product', 'month');
+
+  const recommendations: SeasonalStockingRecommendation[] = [];
+  cube.products.forEach(product => {
+    const units = monthlyUnits.get(product);
+    const average = yearBefore.reduce((sum, month) => sum + (units?.get(month) || 0), 0) / yearBefore.length;
+    const peak = units?.get(lastYear) || 0;
+    if (average === 0 || peak / average < SEASONAL_MIN_INDEX) return;
+
+    const seasonalIndex = peak / average;
+    const expectedUnits = Math.round(monthlyBaseline(units, months) * seasonalIndex);
+    const impactEstimate = monthlyBaseline(monthlyRevenue.get(product), months) * (seasonalIndex - 1);
+    if (expectedUnits === 0) return;
+
+    recommendations.push({
+      type: 'product',
+      action: 'seasonal_stocking',
+      target: product,
+      period: upcoming,
+      metric: 'units',
+      value: `${expectedUnits} units`,
+      benchmark: `${peak} units in ${formatMonth(lastYear)}`,
+      impact: `Sold ${((seasonalIndex - 1) * 100).toFixed(0)}% above a typical month in ${formatMonth(lastYear)}; ` +
+        `plan for about ${expectedUnits} units in ${formatMonth(upcoming)} (+${money(impactEstimate)} revenue)`,
+      impactEstimate,
+      month: upcoming,
+      expectedUnits,
+      seasonalIndex
+    });
+  });
+  return recommendations.sort(byImpact).slice(0, MAX_PER_KIND);
+}
+
+const recommendationCache = new WeakMap<unknown[], Promise<Recommendation[]>>();
+
+// All recommendation kinds. Month-over-month trend advice keeps its
+// established order at the top; the rest follow by size of impact. Built once
+// per dataset, so workflow updates don't rerun the price analysis.
+export function generateRecommendations(data: unknown[]): Promise<Recommendation[]> {
+  const cached = recommendationCache.get(data);
+  if (cached) return cached;
+
+  const recommendations = buildRecommendations(data);
+  recommendationCache.set(data, recommendations);
+  // A failed build is retried on the next call
+  recommendations.catch(() => recommendationCache.delete(data));
+  return recommendations;
+}
+
+async function buildRecommendations(data: unknown[]): Promise<Recommendation[]> {
+  const cube = getSalesCube(data);
+
+  const seasonal = generateSeasonalStockingRecommendations(cube);
+  // A product about to hit its seasonal peak isn't a pruning candidate
+  const seasonalProducts = new Set(seasonal.map(rec => rec.target));
+
+  const additional: Recommendation[] = [
+    ...(await generatePriceRecommendations(data, cube)),
+    ...generatePromoRecommendations(cube),
+    ...generatePruningRecommendations(cube).filter(rec => !seasonalProducts.has(rec.target)),
+    ...generateAssortmentGapRecommendations(cube),
+    ...seasonal
+  ];
+
+  return [...generateTrendRecommendations(data), ...additional.sort(byImpact)];
+}
@@ -0,0 +1,154 @@
+// Sales sheet schema: resolves columns by header name instead of position,
+// so a reordered or extended sheet can't silently corrupt every report.
+
+export type SalesField =
+  | 'transactionId'
+  | 'purchaseDate'
+  | 'customerId'
+  | 'storeLocation'
+  | 'productName'
+  | 'unitPrice'
+  | 'quantity'
+  | 'discountCode'
+  | 'lineTotal';
+
+// Canonical column order. Normalized data always uses this layout, which is
+// also the layout the analyzers' row[n] lookups were written against.
+export const SALES_FIELDS: SalesField[] = [
+  'transactionId',
+  'purchaseDate',
+  'customerId',
+  'storeLocation',
+  'productName',
+  'unitPrice',
+  'quantity',
+  'discountCode',
+  'lineTotal'
+];
+
+export const CANONICAL_HEADERS: Record<SalesField, string> = {
+  transactionId: 'Transaction_ID',
+  purchaseDate: 'Purchase_Date',
+  customerId: 'Customer_ID',
+  storeLocation: 'Store_Location',
+  productName: 'Product_Name',
+  unitPrice: 'Unit_Price',
+  quantity: 'Quantity',
+  discountCode: 'Discount_Code_Used',
+  lineTotal: 'Line_Total'
+};
+
+// Column index of each field in normalized rows (e.g. COLUMN_INDEX.productName === 4)
+export const COLUMN_INDEX = SALES_FIELDS.reduce((acc, field, index) => {
+  acc[field] = index;
+  return acc;
+}, {} as Record<SalesField, number>);
+
+// Header aliases, matched case- and punctuation-insensitively
+export const FIELD_ALIASES: Record<SalesField, string[]> = {
+  transactionId: ['Transaction_ID', 'Transaction', 'Order_ID', 'Order', 'Txn_ID', 'Receipt_ID'],
+  purchaseDate: ['Purchase_Date', 'Date', 'Order_Date', 'Transaction_Date', 'TransactionDate', 'Timestamp'],
+  customerId: ['Customer_ID', 'Customer', 'Client_ID'],
+  storeLocation: ['Store_Location', 'Location', 'Store', 'Branch', 'Shop'],
+  productName: ['Product_Name', 'Product', 'Item', 'Item_Name', 'Menu_Item'],
+  unitPrice: ['Unit_Price', 'Price', 'List_Price'],
+  quantity: ['Quantity', 'Qty', 'Units'],
+  discountCode: ['Discount_Code_Used', 'Discount_Code', 'Discount', 'Promo_Code', 'Promotion'],
+  lineTotal: ['Line_Total', 'Total', 'Revenue', 'Amount', 'Sales']
+};
+
+// Without these the dashboard can't compute anything meaningful
+export const REQUIRED_FIELDS: SalesField[] = [
+  'purchaseDate',
+  'storeLocation',
+  'productName',
+  'unitPrice',
+  'quantity',
+  'lineTotal'
+];
+
+// Explicit overrides: field -> header name, or 0-based column index
+export type ColumnMapping = Partial<Record<SalesField, string | number>>;
+
+export interface ResolvedColumns {
+  columns: Record<SalesField, number>; // -1 when the column isn't present
+  missing: SalesField[];
+  unmappedHeaders: string[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toString().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function resolveColumns(headerRow: unknown[], mapping: ColumnMapping = {}): ResolvedColumns {
+  const headers = (headerRow || []).map(h => normalizeHeader(String(h ?? '')));
+  const columns = {} as Record<SalesField, number>;
+  const used = new Set<number>();
+
+  // Explicit mapping wins over aliases
+  SALES_FIELDS.forEach(field => {
+    const override = mapping[field];
+    if (override === undefined) return;
+
+    const index = typeof override === 'number'
+      ? override
+      : headers.indexOf(normalizeHeader(override));
+
+    if (index < 0 || index >= headers.length) {
+      throw new Error(`Column mapping for ${field} ("${override}") does not match any column`);
+    }
+    columns[field] = index;
+    used.add(index);
+  });
+
+  SALES_FIELDS.forEach(field => {
+    if (columns[field] !== undefined) return;
+
+    const aliases = FIELD_ALIASES[field].map(normalizeHeader);
+    const index = headers.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+    columns[field] = index;
+    if (index >= 0) used.add(index);
+  });
+
+  return {
+    columns,
+    missing: SALES_FIELDS.filter(field => columns[field] < 0),
+    unmappedHeaders: (headerRow || [])
+      .filter((_, i) => !used.has(i))
+      .map(h => String(h ?? ''))
+  };
+}
+
+// Reorders raw sheet rows into the canonical layout (header row included)
+export function normalizeSalesData(data: unknown[][], mapping: ColumnMapping = {}): {
+  data: string[][];
+  resolved: ResolvedColumns;
+} {
+  const resolved = resolveColumns(data[0], mapping);
+
+  const missingRequired = REQUIRED_FIELDS.filter(field => resolved.missing.includes(field));
+  if (missingRequired.length > 0) {
+    throw new Error(
+      `Sales data is missing required column(s): ${missingRequired.map(f => CANONICAL_HEADERS[f]).join(', ')}. ` +
+      `Found headers: ${(data[0] || []).join(', ')}`
+    );
+  }
+
+  if (resolved.missing.length > 0) {
+    console.warn(`Optional sales columns not found: ${resolved.missing.join(', ')}`);
+  }
+  if (resolved.unmappedHeaders.length > 0) {
+    console.log(`Ignoring extra columns: ${resolved.unmappedHeaders.join(', ')}`);
+  }
+
+  const header = SALES_FIELDS.map(field => CANONICAL_HEADERS[field]);
+  const rows = data.slice(1).map(row =>
+    SALES_FIELDS.map(field => {
+      const index = resolved.columns[field];
+      const value = index >= 0 ? row?.[index] : undefined;
+      return value === undefined || value === null ? '' : String(value);
+    })
+  );
+
+  return { data: [header, ...rows], resolved };
+}
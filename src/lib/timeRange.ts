@@ -0,0 +1,98 @@
+import type { CubeFilter } from '@/lib/cube';
+import { toDayKey, parseDayKey } from '@/lib/periods';
+
+// Shared ?timeRange= / ?from=&to= handling for the reporting endpoints.
+// Presets are anchored to the latest date in the data rather than today,
+// so historical datasets still return something for "last 30 days".
+
+export const TIME_RANGES = [
+  'all',
+  '30days',
+  '90days',
+  '6months',
+  '1year',
+  'mtd',         // month to date
+  'qtd',         // quarter to date
+  'ytd',         // year to date
+  'lastQuarter'  // last full calendar quarter before the anchor's quarter
+] as const;
+export type TimeRange = typeof TIME_RANGES[number];
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Converts a timeRange preset into a cube date filter ending at anchorDay
+export function filterByTimeRange(timeRange: string, anchorDay: string | null): CubeFilter {
+  if (!TIME_RANGES.includes(timeRange as TimeRange)) {
+    throw new Error(`Unknown timeRange "${timeRange}" (expected one of ${TIME_RANGES.join(', ')})`);
+  }
+  if (timeRange === 'all' || !anchorDay) {
+    return {}; // No restriction, or no data to anchor to
+  }
+
+  const anchor = parseDayKey(anchorDay);
+  const quarterStartMonth = Math.floor(anchor.getMonth() / 3) * 3;
+  let startDate: Date;
+
+  switch (timeRange as TimeRange) {
+    case '30days':
+      startDate = new Date(anchor);
+      startDate.setDate(anchor.getDate() - 30);
+      break;
+    case '90days':
+      startDate = new Date(anchor);
+      startDate.setDate(anchor.getDate() - 90);
+      break;
+    case '6months':
+      startDate = new Date(anchor);
+      startDate.setMonth(anchor.getMonth() - 6);
+      break;
+    case '1year':
+      startDate = new Date(anchor);
+      startDate.setFullYear(anchor.getFullYear() - 1);
+      break;
+    case 'mtd':
+      startDate = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+      break;
+    case 'qtd':
+      startDate = new Date(anchor.getFullYear(), quarterStartMonth, 1);
+      break;
+    case 'ytd':
+      startDate = new Date(anchor.getFullYear(), 0, 1);
+      break;
+    case 'lastQuarter':
+      // Day 0 of the current quarter's first month is the previous quarter's last day
+      return {
+        from: toDayKey(new Date(anchor.getFullYear(), quarterStartMonth - 3, 1)),
+        to: toDayKey(new Date(anchor.getFullYear(), quarterStartMonth, 0))
+      };
+    default:
+      return {};
+  }
+
+  return { from: toDayKey(startDate), to: anchorDay };
+}
+
+// Throws a user-facing error unless value is a real YYYY-MM-DD date
+export function validateDayKey(name: string, value: string): void {
+  if (!DAY_KEY.test(value) || toDayKey(parseDayKey(value)) !== value) {
+    throw new Error(`Invalid ${name} date "${value}" (expected YYYY-MM-DD)`);
+  }
+}
+
+// Reads timeRange, or explicit from/to day keys (which take precedence).
+// Throws with a user-facing message when the parameters are invalid.
+export function parseDateFilter(searchParams: URLSearchParams, anchorDay: string | null): CubeFilter {
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  if (from) validateDayKey('from', from);
+  if (to) validateDayKey('to', to);
+  if (from && to && from > to) {
+    throw new Error(`from (${from}) must not be after to (${to})`);
+  }
+
+  if (from || to) {
+    return { ...(from && { from }), ...(to && { to }) };
+  }
+  return filterByTimeRange(searchParams.get('timeRange') || 'all', anchorDay);
+}
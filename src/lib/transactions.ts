@@ -0,0 +1,165 @@
+import type {
+  Transaction,
+  RowValidationIssue,
+  DataQualityReport,
+  ValidationIssueCode
+} from '@/types/data';
+import { COLUMN_INDEX } from '@/lib/schema';
+
+// Single parser turning normalized sheet rows into typed Transaction records.
+// Rows that can't be trusted are rejected and reported instead of being
+// silently dropped or counted as $0.
+
+// Allowed rounding difference between Line_Total and Unit_Price × Quantity
+const LINE_TOTAL_TOLERANCE = 0.01;
+
+export interface ParsedTransactions {
+  transactions: Transaction[];
+  report: DataQualityReport;
+}
+
+// Parsing is memoized per dataset so every route shares one pass
+const parseCache = new WeakMap<unknown[], ParsedTransactions>();
+
+export function parseTransactions(data: unknown[]): ParsedTransactions {
+  const cached = parseCache.get(data);
+  if (cached) return cached;
+
+  const transactions: Transaction[] = [];
+  const issues: RowValidationIssue[] = [];
+  let rowsWithWarnings = 0;
+
+  data.slice(1).forEach((row, index) => {
+    const result = parseRow(row, index + 2);
+    issues.push(...result.issues);
+
+    if (result.transaction) {
+      transactions.push(result.transaction);
+      if (result.issues.length > 0) rowsWithWarnings++;
+    }
+  });
+
+  const totalRows = Math.max(data.length - 1, 0);
+  const issueCounts: Partial<Record<ValidationIssueCode, number>> = {};
+  issues.forEach(issue => {
+    issueCounts[issue.code] = (issueCounts[issue.code] || 0) + 1;
+  });
+
+  const parsed: ParsedTransactions = {
+    transactions,
+    report: {
+      totalRows,
+      validRows: transactions.length,
+      rejectedRows: totalRows - transactions.length,
+      rowsWithWarnings,
+      coverage: totalRows > 0 ? transactions.length / totalRows : 0,
+      issueCounts,
+      issues
+    }
+  };
+
+  console.log(`Parsed ${transactions.length} of ${totalRows} rows (${issues.length} issues)`);
+  parseCache.set(data, parsed);
+  return parsed;
+}
+
+function parseRow(row: unknown, rowNumber: number): {
+  transaction: Transaction | null;
+  issues: RowValidationIssue[];
+} {
+  const issues: RowValidationIssue[] = [];
+  const cells: unknown[] = Array.isArray(row) ? row : [];
+  const cell = (field: keyof typeof COLUMN_INDEX) => String(cells[COLUMN_INDEX[field]] ?? '').trim();
+
+  const addIssue = (
+    field: RowValidationIssue['field'],
+    code: ValidationIssueCode,
+    message: string,
+    severity: RowValidationIssue['severity'] = 'error'
+  ) => {
+    issues.push({ rowNumber, field, code, severity, message, value: cell(field) });
+  };
+
+  // Required text fields
+  const requiredFields = ['storeLocation', 'productName'] as const;
+  requiredFields.forEach(field => {
+    if (!cell(field)) addIssue(field, 'missing_field', `${field} is empty`);
+  });
+
+  // Purchase date
+  const purchaseDate = new Date(cell('purchaseDate'));
+  if (!cell('purchaseDate')) {
+    addIssue('purchaseDate', 'missing_field', 'purchaseDate is empty');
+  } else if (isNaN(purchaseDate.getTime())) {
+    addIssue('purchaseDate', 'invalid_date', `Unparseable date "${cell('purchaseDate')}"`);
+  }
+
+  // Numeric fields
+  const unitPrice = parseNumber(cell('unitPrice'));
+  const quantity = parseNumber(cell('quantity'));
+  const lineTotal = parseNumber(cell('lineTotal'));
+
+  if (unitPrice === null) {
+    addIssue('unitPrice', 'invalid_number', `Unit price "${cell('unitPrice')}" is not a number`);
+  } else if (unitPrice < 0) {
+    addIssue('unitPrice', 'negative_amount', 'Unit price is negative');
+  }
+
+  if (quantity === null) {
+    addIssue('quantity', 'invalid_number', `Quantity "${cell('quantity')}" is not a number`);
+  } else if (quantity < 0) {
+    addIssue('quantity', 'negative_quantity', 'Quantity is negative');
+  }
+
+  if (lineTotal === null) {
+    addIssue('lineTotal', 'invalid_number', `Line total "${cell('lineTotal')}" is not a number`);
+  } else if (lineTotal < 0) {
+    addIssue('lineTotal', 'negative_amount', 'Line total is negative');
+  }
+
+  const discountCode = cell('discountCode') || null;
+
+  // Line_Total should equal Unit_Price × Quantity, minus any discount
+  if (unitPrice !== null && quantity !== null && lineTotal !== null && issues.length === 0) {
+    const expected = unitPrice * quantity;
+    const tolerance = Math.max(LINE_TOTAL_TOLERANCE, expected * 0.005);
+
+    if (discountCode ? lineTotal > expected + tolerance : Math.abs(lineTotal - expected) > tolerance) {
+      addIssue(
+        'lineTotal',
+        'line_total_mismatch',
+        `Line total ${lineTotal.toFixed(2)} does not match ${unitPrice.toFixed(2)} × ${quantity}` +
+          (discountCode ? ` less discount ${discountCode}` : ''),
+        'warning'
+      );
+    }
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { transaction: null, issues };
+  }
+
+  return {
+    transaction: {
+      rowNumber,
+      transactionId: cell('transactionId') || `row-${rowNumber}`, // One order per row when IDs are missing
+      purchaseDate,
+      customerId: cell('customerId'),
+      storeLocation: cell('storeLocation'),
+      productName: cell('productName'),
+      unitPrice: unitPrice!,
+      quantity: quantity!,
+      discountCode,
+      lineTotal: lineTotal!
+    },
+    issues
+  };
+}
+
+// Accepts "12.99", "$1,299.00"; returns null for anything else
+function parseNumber(value: string): number | null {
+  if (!value) return null;
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
@@ -102,4 +102,84 @@ export interface DataMetadata {
   months: string[];
   timeRange: string[];
   monthNames: string[];
-} 
\ No newline at end of file
+} 
+// Typed sales record produced by parseTransactions
+export interface Transaction {
+  rowNumber: number; // 1-based sheet row (header is row 1)
+  transactionId: string;
+  purchaseDate: Date;
+  customerId: string;
+  storeLocation: string;
+  productName: string;
+  unitPrice: number;
+  quantity: number;
+  discountCode: string | null;
+  lineTotal: number;
+}
+
+export type ValidationIssueCode =
+  | 'missing_field'
+  | 'invalid_date'
+  | 'invalid_number'
+  | 'negative_quantity'
+  | 'negative_amount'
+  | 'line_total_mismatch';
+
+export interface RowValidationIssue {
+  rowNumber: number;
+  field: keyof Omit<Transaction, 'rowNumber'>;
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning'; // errors exclude the row, warnings keep it
+  message: string;
+  value: string;
+}
+
+export interface DataQualityReport {
+  totalRows: number;
+  validRows: number;
+  rejectedRows: number;
+  rowsWithWarnings: number;
+  coverage: number; // share of rows the numbers are based on (0-1)
+  issueCounts: Partial<Record<ValidationIssueCode, number>>;
+  issues: RowValidationIssue[];
+}
+
+// Describes what was loaded from the data source, returned with API responses
+export interface DatasetMeta {
+  source: string;
+  rowCount: number; // data rows, excluding header rows
+  truncated: boolean;
+  tables: Array<{ name: string; rowCount: number; truncated: boolean }>;
+  asOf: string; // ISO timestamp of when the data was fetched
+  version: number; // increments on every reload
+  cacheStatus: 'miss' | 'fresh' | 'stale';
+}
+
+// Per-store summary returned by /api/locations
+export interface LocationSummary {
+  id: string; // URL-safe slug of the name
+  name: string;
+  revenue: number;
+  orders: number;
+  units: number;
+  customers: number;
+  averageOrderValue: number;
+  firstSale: string | null; // YYYY-MM-DD
+  lastSale: string | null;
+  topProduct: { name: string; revenue: number } | null;
+}
+
+// Per-product catalog entry returned by /api/products
+export interface ProductSummary {
+  id: string; // URL-safe slug of the name
+  name: string;
+  revenue: number;
+  units: number;
+  orders: number;
+  averageListPrice: number; // unit price averaged over units sold
+  currentPrice: number | null; // unit price on the most recent sale
+  firstSold: string | null; // YYYY-MM-DD
+  lastSold: string | null;
+  active: boolean; // sold within the activity window before the latest sale in the data
+  locations: string[];
+}
@@ -1,17 +1,30 @@
-// Simple cache implementation
-const cache = new Map<string, {value: any, timestamp: number}>();
+// Simple cache implementation, shared process-wide. Kept on globalThis so
+// every route bundle (and dev hot reloads) see the same entries.
+type CacheEntry = {value: any, timestamp: number};
+
+const globalCache = globalThis as typeof globalThis & { __responseCache?: Map<string, CacheEntry> };
+const cache = globalCache.__responseCache ?? (globalCache.__responseCache = new Map<string, CacheEntry>());
 const CACHE_TTL = 1000 * 60 * 60; // 1 hour
 
-export function getCachedResponse(key: string) {
+export function getCachedResponse(key: string, ttl: number = CACHE_TTL) {
   const entry = cache.get(key);
   if (!entry) return null;
-  if (Date.now() - entry.timestamp > CACHE_TTL) {
+  if (Date.now() - entry.timestamp > ttl) {
     cache.delete(key);
     return null;
   }
   return entry.value;
 }
 
+// Returns the entry regardless of age, for stale-while-revalidate callers
+export function getCachedEntry(key: string): CacheEntry | null {
+  return cache.get(key) || null;
+}
+
 export function setCachedResponse(key: string, value: any) {
   cache.set(key, {value, timestamp: Date.now()});
-} 
\ No newline at end of file
+}
+
+export function clearCachedResponse(key: string) {
+  cache.delete(key);
+}
@@ -0,0 +1,166 @@
+import { toSlug } from '@/utils/slug';
+
+// Browser-side helpers for taking a chart out of the dashboard: the data as
+// CSV, the rendered recharts <svg> as SVG or PNG. Every file carries the
+// range and filters it was exported with, both in its name and inside it.
+
+export interface ExportContext {
+  view: string;                     // e.g. 'Revenue Trend'
+  from: string | null;              // YYYY-MM-DD
+  to: string | null;
+  details: Record<string, string>;  // granularity, metric, comparison mode...
+  filters: Record<string, string[]>; // filter name -> selected values
+}
+
+type CsvValue = string | number | null | undefined;
+
+// Key/value pairs written into every export
+function metadataEntries(context: ExportContext): [string, string][] {
+  const entries: [string, string][] = [
+    ['View', context.view],
+    ['Range', context.from && context.to ? `${context.from} to ${context.to}` : 'All time'],
+    ...Object.entries(context.details)
+  ];
+  Object.entries(context.filters).forEach(([name, values]) => {
+    if (values.length > 0) entries.push([name, values.join('; ')]);
+  });
+  entries.push(['Exported', new Date().toISOString()]);
+  return entries;
+}
+
+// e.g. "revenue-trend_2024-10-01_to_2024-12-31_downtown_green-smoothie.csv"
+export function exportFilename(context: ExportContext, extension: string): string {
+  const parts = [toSlug(context.view)];
+  if (context.from && context.to) parts.push(`${context.from}_to_${context.to}`);
+  Object.values(context.filters).flat().forEach(value => parts.push(toSlug(value)));
+  return `${parts.filter(Boolean).join('_')}.${extension}`;
+}
+
+function escapeCsv(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV with the export metadata as leading "# key: value" comment lines
+export function toCsv(columns: { key: string; title: string }[], rows: Record<string, CsvValue>[], context: ExportContext): string {
+  const lines = metadataEntries(context).map(([key, value]) => `# ${key}: ${value}`);
+  lines.push(columns.map(column => escapeCsv(column.title)).join(','));
+  rows.forEach(row => {
+    lines.push(columns.map(column => escapeCsv(row[column.key])).join(','));
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Standalone copy of the chart's <svg> with a white background and the
+// export metadata in <title>/<desc>
+export function serializeChartSvg(svg: SVGSVGElement, context: ExportContext): { markup: string; width: number; height: number } {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const ns = 'http://www.w3.org/2000/svg';
+
+  clone.setAttribute('xmlns', ns);
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  // The page's web font doesn't travel with the file, so fall back to a generic one
+  clone.setAttribute('font-family', 'sans-serif');
+
+  const title = document.createElementNS(ns, 'title');
+  title.textContent = context.view;
+  const desc = document.createElementNS(ns, 'desc');
+  desc.textContent = metadataEntries(context).map(([key, value]) => `${key}: ${value}`).join('\n');
+  const background = document.createElementNS(ns, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', '#ffffff');
+  clone.insertBefore(background, clone.firstChild);
+  clone.insertBefore(desc, clone.firstChild);
+  clone.insertBefore(title, clone.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Inserts tEXt chunks right after the IHDR chunk (8-byte signature + 25 bytes)
+function addPngText(png: Uint8Array, entries: [string, string][]): Uint8Array {
+  const encode = (text: string) => Uint8Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 63; // tEXt is Latin-1; anything else becomes "?"
+  });
+
+  const chunks = entries.map(([key, value]) => {
+    const data = encode(`${key}\0${value}`);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(encode('tEXt'), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  });
+
+  const insertAt = 33;
+  const total = png.length + chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  result.set(png.subarray(0, insertAt));
+  let offset = insertAt;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  result.set(png.subarray(insertAt), offset);
+  return result;
+}
+
+// Rasterizes the chart at 2x for crisp slides and documents
+export async function chartToPng(svg: SVGSVGElement, context: ExportContext): Promise<Blob> {
+  const { markup, width, height } = serializeChartSvg(svg, context);
+  const scale = 2;
+
+  const image = new Image();
+  const loaded = new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('Could not render chart image'));
+  });
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  await loaded;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.scale(scale, scale);
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not encode PNG');
+
+  const png = new Uint8Array(await blob.arrayBuffer());
+  return new Blob([addPngText(png, [['Title', context.view], ...metadataEntries(context)])], { type: 'image/png' });
+}
@@ -0,0 +1,4 @@
+// URL-safe id for a product or store name, e.g. "Berry Blast Smoothie" -> "berry-blast-smoothie"
+export function toSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}